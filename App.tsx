@@ -1,12 +1,25 @@
 import React, { useState, useCallback, useEffect, useRef, useMemo } from 'react';
-import { CanvasImage, Group, Annotation, Rect, Point, AspectRatio, AnnotationTool, AnnotationSelection, TextAnnotation, RectAnnotation, CircleAnnotation } from './types';
+import { CanvasImage, Group, Annotation, Rect, Point, AspectRatio, AnnotationTool, AnnotationSelection, TextAnnotation, RectAnnotation, CircleAnnotation, ToolOptions, ExportFormat, ExportOptions, ExportPreset, ExportSlice, ImportPlaceholder, ImageFilter } from './types';
 import { CanvasWrapper } from './components/CanvasWrapper';
 import { LeftSidebar } from './components/LeftSidebar';
 import { LayersPanel } from './components/LayersPanel';
 import { MiniMap } from './components/MiniMap';
 import { FloatingAnnotationEditor } from './components/FloatingAnnotationEditor';
-import { readImageFile, downloadDataUrl } from './utils/fileUtils';
-import { getImagesBounds, transformGlobalToLocal, transformLocalToGlobal, rectIntersect, getAnnotationBounds, drawAnnotation } from './utils/canvasUtils';
+import { RestoreSessionDialog } from './components/RestoreSessionDialog';
+import { EmbeddedProjectDialog } from './components/EmbeddedProjectDialog';
+import { ExportOptionsDialog } from './components/ExportOptionsDialog';
+import { ImportProgress } from './components/ImportProgress';
+import { readImageFile, importImageFile, downloadBlob, createImageElementFromBlob, hasElementPixels } from './utils/fileUtils';
+import { renderProcessedImageBlob, prepareProcessedSources, computeImageHistogram } from './utils/imageProcessingUtils';
+import { createAutoAdjustments } from './utils/adjustmentUtils';
+import { serializeProject, parseProjectFile, deserializeProject, pickProjectState, PROJECT_FILE_EXTENSION, ProjectState } from './utils/projectUtils';
+import { isImageFile, getFolderPath, compareFilePaths, createFolderGroups, layoutFolderGrids, createImportPlaceholders, fitImageToPlaceholder, mapWithConcurrency, IMPORT_CONCURRENCY } from './utils/importUtils';
+import { embedPngText, PNG_PROJECT_KEYWORD } from './utils/pngUtils';
+import { createPdf, PdfPage, PdfOptions, PdfExportMode } from './utils/pdfUtils';
+import { createPackagedProject, readPackagedProject, isZipFile, PACKAGED_PROJECT_EXTENSION, createLayeredImageArchive, createArchive } from './utils/zipUtils';
+import { renderToBlob, sanitizeFileName, getExportFileExtension, loadExportPresets, saveExportPresets } from './utils/exportUtils';
+import { saveSession, loadSession, restoreSession, clearSession, StoredSession, SessionSelection, LibraryProjectSummary, listLibraryProjects, saveLibraryProject, openLibraryProject, renameLibraryProject, duplicateLibraryProject, deleteLibraryProject } from './utils/storageUtils';
+import { getImagesBounds, transformGlobalToLocal, transformLocalToGlobal, rectIntersect, getAnnotationBounds, drawAnnotation, renderToOffscreenCanvas, createThumbnailDataUrl, getRenderableImages, getGroupImageIds, getArrangedPositions, getSourceRect, mirrorAnnotation, DEFAULT_EXPORT_OPTIONS } from './utils/canvasUtils';
 
 interface AppState {
     images: CanvasImage[];
@@ -16,8 +29,12 @@ interface AppState {
     selectedGroupIds: string[];
     selectedAnnotations: AnnotationSelection[];
     selectedLayerId: string | null;
+    exportSlices: ExportSlice[];
+    archivedImages: Record<string, CanvasImage>; // Originals for Uncrop, kept in step with the images that refer to them
 }
 
+const AUTOSAVE_INTERVAL_MS = 2000;
+
 const App: React.FC = () => {
     // State
     const [images, setImages] = useState<CanvasImage[]>([]);
@@ -31,7 +48,7 @@ const App: React.FC = () => {
     const [viewTransform, setViewTransform] = useState<{ scale: number; offset: Point }>({ scale: 1, offset: { x: 0, y: 0 } });
     const [aspectRatio, setAspectRatio] = useState<AspectRatio>('free');
     const [activeTool, setActiveTool] = useState<AnnotationTool>('select');
-    const [toolOptions, setToolOptions] = useState({
+    const [toolOptions, setToolOptions] = useState<ToolOptions>({
         color: '#ff0000',
         strokeWidth: 2,
         fontSize: 16,
@@ -50,9 +67,22 @@ const App: React.FC = () => {
     const [clipboard, setClipboard] = useState<{ selections: AnnotationSelection[] } | null>(null);
     const [history, setHistory] = useState<AppState[]>([]);
     const [historyIndex, setHistoryIndex] = useState(-1);
-    const [exportFormat, setExportFormat] = useState<'png' | 'jpeg'>('png');
+    const [exportFormat, setExportFormat] = useState<ExportFormat>('png');
+    const [exportAsSeparateFiles, setExportAsSeparateFiles] = useState(false);
+    const [exportOptions, setExportOptions] = useState<ExportOptions>(DEFAULT_EXPORT_OPTIONS);
+    const [isExportOptionsOpen, setIsExportOptionsOpen] = useState(false);
+    const [exportPresets, setExportPresets] = useState<ExportPreset[]>(loadExportPresets);
+    const [exportSlices, setExportSlices] = useState<ExportSlice[]>([]);
     const [expandedImageAnnotationIds, setExpandedImageAnnotationIds] = useState<string[]>([]);
     const [isLocked, setIsLocked] = useState(false);
+    const [pendingSession, setPendingSession] = useState<StoredSession | null>(null);
+    const [isSessionChecked, setIsSessionChecked] = useState(false);
+    const [libraryProjects, setLibraryProjects] = useState<LibraryProjectSummary[]>([]);
+    const [currentLibraryProjectId, setCurrentLibraryProjectId] = useState<string | null>(null);
+    const [importProgress, setImportProgress] = useState<{ done: number; total: number; currentFile: string } | null>(null);
+    const [importPlaceholders, setImportPlaceholders] = useState<ImportPlaceholder[]>([]);
+    const [embeddedProjectPrompt, setEmbeddedProjectPrompt] = useState<{ fileName: string; resolve: (openProject: boolean) => void } | null>(null);
+    const importControllersRef = useRef(new Set<AbortController>()); // One per running import
 
     const lastCanvasMousePosition = useRef<Point>({ x: 0, y: 0 });
     const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -63,9 +93,11 @@ const App: React.FC = () => {
         selectedImageIds: [],
         selectedGroupIds: [],
         selectedAnnotations: [],
-        selectedLayerId: null
+        selectedLayerId: null,
+        exportSlices: [],
+        archivedImages: {}
     });
-    appStateRef.current = { images, groups, canvasAnnotations, selectedImageIds, selectedGroupIds, selectedAnnotations, selectedLayerId };
+    appStateRef.current = { images, groups, canvasAnnotations, selectedImageIds, selectedGroupIds, selectedAnnotations, selectedLayerId, exportSlices, archivedImages };
 
     // Helpers
     const pushHistory = useCallback((newState: Partial<AppState>) => {
@@ -84,6 +116,8 @@ const App: React.FC = () => {
         if (newState.selectedGroupIds) setSelectedGroupIds(newState.selectedGroupIds);
         if (newState.selectedAnnotations) setSelectedAnnotations(newState.selectedAnnotations);
         if (newState.selectedLayerId !== undefined) setSelectedLayerId(newState.selectedLayerId);
+        if (newState.exportSlices) setExportSlices(newState.exportSlices);
+        if (newState.archivedImages) setArchivedImages(newState.archivedImages);
     }, [history, historyIndex]);
 
     const setAppState = useCallback((updater: (prev: AppState) => Partial<AppState>) => {
@@ -96,6 +130,8 @@ const App: React.FC = () => {
         if (updates.images !== undefined) setImages(updates.images);
         if (updates.groups !== undefined) setGroups(updates.groups);
         if (updates.canvasAnnotations !== undefined) setCanvasAnnotations(updates.canvasAnnotations);
+        if (updates.exportSlices !== undefined) setExportSlices(updates.exportSlices);
+        if (updates.archivedImages !== undefined) setArchivedImages(updates.archivedImages);
     }, []);
 
     const resetLastArrangement = useCallback(() => {}, []);
@@ -250,73 +286,147 @@ const App: React.FC = () => {
         specificBounds: Rect | null,
         filename: string
     ) => {
-        let bounds = specificBounds;
-        
-        if (!bounds) {
-            bounds = getImagesBounds(itemsToDraw);
-            // Expand with canvas annotations
-            const tempCtx = document.createElement('canvas').getContext('2d');
-            if (tempCtx) {
-                 canvasAnnosToDraw.forEach(anno => {
-                    const b = getAnnotationBounds(anno, tempCtx);
-                    if (!bounds) bounds = b;
-                    else {
-                        const minX = Math.min(bounds.x, b.x);
-                        const minY = Math.min(bounds.y, b.y);
-                        const maxX = Math.max(bounds.x + bounds.width, b.x + b.width);
-                        const maxY = Math.max(bounds.y + bounds.height, b.y + b.height);
-                        bounds = { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
-                    }
-                 });
-            }
+        let blob: Blob | null;
+        try {
+            blob = await renderToBlob(itemsToDraw, canvasAnnosToDraw, groups, specificBounds, exportFormat, exportOptions);
+        } catch (e) {
+            console.error(e);
+            alert(`Could not export the image: ${e instanceof Error ? e.message : String(e)}`);
+            return;
+        }
+        if (!blob) return;
+        if (exportFormat !== 'png') {
+            downloadBlob(blob, filename);
+            return;
         }
-        
-        if (!bounds) return;
 
-        const offscreenCanvas = document.createElement('canvas');
-        offscreenCanvas.width = bounds.width;
-        offscreenCanvas.height = bounds.height;
-        const ctx = offscreenCanvas.getContext('2d');
-        if (!ctx) return;
-        
-        // Draw Background
-        ctx.fillStyle = '#1f2937';
-        ctx.fillRect(0, 0, bounds.width, bounds.height);
-        
-        ctx.save();
-        ctx.translate(-bounds.x, -bounds.y);
-
-        // Draw Images
-        itemsToDraw.forEach(image => {
-            if (image.visible === false) return;
-            ctx.save();
-            const centerX = image.x + (image.width * image.scale) / 2;
-            const centerY = image.y + (image.height * image.scale) / 2;
-            ctx.translate(centerX, centerY);
-            ctx.rotate(image.rotation * Math.PI / 180);
-            ctx.scale(image.scale, image.scale);
-            
-            const sx = image.cropRect ? image.cropRect.x : 0;
-            const sy = image.cropRect ? image.cropRect.y : 0;
-            const sWidth = image.cropRect ? image.cropRect.width : image.originalWidth;
-            const sHeight = image.cropRect ? image.cropRect.height : image.originalHeight;
-            
-            ctx.drawImage(image.element, sx, sy, sWidth, sHeight, -image.width / 2, -image.height / 2, image.width, image.height);
-    
-            ctx.translate(-image.width / 2, -image.height / 2);
-            image.annotations.forEach(anno => drawAnnotation(ctx, anno));
-    
-            ctx.restore();
-        });
-        
-        // Draw Canvas Annotations
-        canvasAnnosToDraw.forEach(anno => drawAnnotation(ctx, anno));
-        ctx.restore();
+        // PNGs carry the exported layers as a project, so the file can be reopened for editing.
+        try {
+            const state = { images, groups, canvasAnnotations, archivedImages, toolOptions, viewTransform, exportSlices, exportPresets };
+            const project = await serializeProject(pickProjectState(state, itemsToDraw, canvasAnnosToDraw));
+            downloadBlob(await embedPngText(blob, PNG_PROJECT_KEYWORD, JSON.stringify(project)), filename);
+        } catch {
+            // Still deliver the image, just without the embedded project.
+            downloadBlob(blob, filename);
+        }
+    }, [exportFormat, exportOptions, images, groups, canvasAnnotations, archivedImages, toolOptions, viewTransform, exportSlices, exportPresets]);
+
+    const downloadSeparateFiles = useCallback(async (imagesToExport: CanvasImage[], canvasAnnosToExport: Annotation[], filename: string) => {
+        const visibleImages = imagesToExport.filter(img => img.visible !== false);
+        if (visibleImages.length === 0 && canvasAnnosToExport.length === 0) return;
+        try {
+            const blob = await createLayeredImageArchive(visibleImages, canvasAnnosToExport, images, groups, exportFormat, exportOptions);
+            downloadBlob(blob, filename);
+        } catch (e) {
+            console.error(e);
+            alert(`Could not create the ZIP archive: ${e instanceof Error ? e.message : String(e)}`);
+        }
+    }, [images, groups, exportFormat, exportOptions]);
+
+    const handleExportPdf = useCallback(async (mode: PdfExportMode, options: PdfOptions) => {
+        try {
+            await prepareProcessedSources(getRenderableImages(images, groups));
+            const pages: PdfPage[] = [];
+            const addPage = (pageImages: CanvasImage[], pageAnnotations: Annotation[], caption?: string) => {
+                const canvas = renderToOffscreenCanvas(pageImages, pageAnnotations, groups, null);
+                if (canvas && canvas.width > 0 && canvas.height > 0) pages.push({ canvas, caption });
+            };
 
-        const dataUrl = offscreenCanvas.toDataURL(exportFormat === 'png' ? 'image/png' : 'image/jpeg');
-        downloadDataUrl(dataUrl, filename);
+            if (mode === 'images') {
+                const targets = selectedImageIds.length > 0 ? images.filter(img => selectedImageIds.includes(img.id)) : images;
+                targets.forEach(img => addPage([img], [], img.name));
+            } else if (mode === 'groups') {
+                groups.filter(g => !g.parentId).forEach(group => {
+                    const ids = new Set(getGroupImageIds(group, groups));
+                    addPage(images.filter(img => ids.has(img.id)), [], group.name);
+                });
+            } else {
+                addPage(images, canvasAnnotations);
+            }
 
-    }, [exportFormat]);
+            if (pages.length === 0) {
+                alert('There is nothing visible to export.');
+                return;
+            }
+            downloadBlob(await createPdf(pages, options), 'canvas-export.pdf');
+        } catch (e) {
+            console.error(e);
+            alert(`Could not create the PDF: ${e instanceof Error ? e.message : String(e)}`);
+        }
+    }, [images, groups, canvasAnnotations, selectedImageIds]);
+
+    // Export Presets & Slices
+    useEffect(() => { saveExportPresets(exportPresets); }, [exportPresets]);
+
+    const handleSaveExportPreset = useCallback(() => {
+        const name = prompt('Preset name', `${exportFormat.toUpperCase()} ${exportOptions.scale}x`);
+        if (name === null) return;
+        const preset: ExportPreset = { id: `preset-${Date.now()}-${Math.random()}`, name: name.trim() || 'Untitled preset', format: exportFormat, options: exportOptions };
+        setExportPresets(prev => [...prev, preset]);
+    }, [exportFormat, exportOptions]);
+
+    const handleApplyExportPreset = useCallback((id: string) => {
+        const preset = exportPresets.find(p => p.id === id);
+        if (!preset) return;
+        setExportFormat(preset.format);
+        setExportOptions(preset.options);
+    }, [exportPresets]);
+
+    // Presets aren't part of the history, but the slices using one are: they go back to the current settings undoably.
+    const handleDeleteExportPreset = useCallback((id: string) => {
+        setExportPresets(prev => prev.filter(p => p.id !== id));
+        const slices = appStateRef.current.exportSlices;
+        if (slices.some(slice => slice.presetId === id)) {
+            pushHistory({ exportSlices: slices.map(slice => slice.presetId === id ? { ...slice, presetId: null } : slice) });
+        }
+    }, [pushHistory]);
+
+    const handleSaveCropAsSlice = useCallback(() => {
+        if (!cropArea || cropArea.width === 0 || cropArea.height === 0) return;
+        const name = prompt('Slice name', `Slice ${exportSlices.length + 1}`);
+        if (name === null) return;
+        const rect: Rect = {
+            x: cropArea.width < 0 ? cropArea.x + cropArea.width : cropArea.x,
+            y: cropArea.height < 0 ? cropArea.y + cropArea.height : cropArea.y,
+            width: Math.abs(cropArea.width),
+            height: Math.abs(cropArea.height),
+        };
+        pushHistory({ exportSlices: [...exportSlices, { id: `slice-${Date.now()}-${Math.random()}`, name: name.trim() || `Slice ${exportSlices.length + 1}`, rect, presetId: null }] });
+        setCropArea(null);
+    }, [cropArea, exportSlices, pushHistory]);
+
+    const handleUpdateExportSlice = useCallback((id: string, changes: Partial<ExportSlice>) => {
+        pushHistory({ exportSlices: exportSlices.map(slice => slice.id === id ? { ...slice, ...changes } : slice) });
+    }, [exportSlices, pushHistory]);
+
+    const handleDeleteExportSlice = useCallback((id: string) => {
+        pushHistory({ exportSlices: exportSlices.filter(slice => slice.id !== id) });
+    }, [exportSlices, pushHistory]);
+
+    // Each slice renders with its own preset, falling back to the current export settings.
+    const handleExportSlices = useCallback(async (ids: string[]) => {
+        const slices = exportSlices.filter(slice => ids.includes(slice.id));
+        if (slices.length === 0) return;
+        try {
+            const entries: { path: string; blob: Blob }[] = [];
+            for (const slice of slices) {
+                // A slice whose preset was deleted uses the current settings, as the slice list shows.
+                const preset = exportPresets.find(p => p.id === slice.presetId);
+                const format = preset?.format ?? exportFormat;
+                const blob = await renderToBlob(images, canvasAnnotations, groups, slice.rect, format, preset?.options ?? exportOptions, true);
+                if (blob) entries.push({ path: `${sanitizeFileName(slice.name)}.${getExportFileExtension(format)}`, blob });
+            }
+            if (entries.length === 0) return;
+            if (entries.length === 1) {
+                downloadBlob(entries[0].blob, entries[0].path);
+            } else {
+                downloadBlob(await createArchive(entries), 'slices-export.zip');
+            }
+        } catch (e) {
+            console.error(e);
+            alert(`Could not export the slices: ${e instanceof Error ? e.message : String(e)}`);
+        }
+    }, [exportSlices, exportPresets, exportFormat, exportOptions, images, canvasAnnotations, groups]);
 
     const handleCopyToClipboard = useCallback(async () => {
         const canvas = canvasRef.current;
@@ -352,49 +462,10 @@ const App: React.FC = () => {
         }
         
         if (!bounds || (itemsToDraw.length === 0 && canvasAnnosToDraw.length === 0)) return;
-    
-        const offscreenCanvas = document.createElement('canvas');
-        offscreenCanvas.width = bounds.width;
-        offscreenCanvas.height = bounds.height;
-        const ctx = offscreenCanvas.getContext('2d');
-        if (!ctx) return;
-        
-        ctx.fillStyle = '#1f2937';
-        ctx.fillRect(0, 0, bounds.width, bounds.height);
-        
-        ctx.save();
-        ctx.translate(-bounds.x, -bounds.y);
-    
-        if (cropArea) {
-            ctx.beginPath();
-            ctx.rect(bounds.x, bounds.y, bounds.width, bounds.height);
-            ctx.clip();
-        }
 
-        itemsToDraw.forEach(image => {
-            ctx.save();
-            const centerX = image.x + (image.width * image.scale) / 2;
-            const centerY = image.y + (image.height * image.scale) / 2;
-            ctx.translate(centerX, centerY);
-            ctx.rotate(image.rotation * Math.PI / 180);
-            ctx.scale(image.scale, image.scale);
-            
-            const sx = image.cropRect ? image.cropRect.x : 0;
-            const sy = image.cropRect ? image.cropRect.y : 0;
-            const sWidth = image.cropRect ? image.cropRect.width : image.originalWidth;
-            const sHeight = image.cropRect ? image.cropRect.height : image.originalHeight;
-            
-            ctx.drawImage(image.element, sx, sy, sWidth, sHeight, -image.width / 2, -image.height / 2, image.width, image.height);
-    
-            ctx.translate(-image.width / 2, -image.height / 2);
-            image.annotations.forEach(anno => drawAnnotation(ctx, anno));
-    
-            ctx.restore();
-        });
-    
-        canvasAnnosToDraw.forEach(anno => drawAnnotation(ctx, anno));
-    
-        ctx.restore();
+        await prepareProcessedSources(getRenderableImages(itemsToDraw, groups));
+        const offscreenCanvas = renderToOffscreenCanvas(itemsToDraw, canvasAnnosToDraw, groups, bounds, exportOptions, !!cropArea);
+        if (!offscreenCanvas) return;
     
         offscreenCanvas.toBlob(async (blob) => {
             if (blob) {
@@ -407,7 +478,7 @@ const App: React.FC = () => {
                 }
             }
         }, 'image/png');
-    }, [cropArea, selectedImageIds, images, canvasAnnotations]);
+    }, [cropArea, selectedImageIds, images, groups, canvasAnnotations, exportOptions]);
     
     const handleUndo = useCallback(() => {
         if (historyIndex > 0) {
@@ -419,6 +490,8 @@ const App: React.FC = () => {
             setSelectedGroupIds(prevState.selectedGroupIds);
             setSelectedAnnotations(prevState.selectedAnnotations);
             setSelectedLayerId(prevState.selectedLayerId);
+            setExportSlices(prevState.exportSlices);
+            setArchivedImages(prevState.archivedImages);
             setHistoryIndex(historyIndex - 1);
         }
     }, [history, historyIndex]);
@@ -433,6 +506,8 @@ const App: React.FC = () => {
             setSelectedGroupIds(nextState.selectedGroupIds);
             setSelectedAnnotations(nextState.selectedAnnotations);
             setSelectedLayerId(nextState.selectedLayerId);
+            setExportSlices(nextState.exportSlices);
+            setArchivedImages(nextState.archivedImages);
             setHistoryIndex(historyIndex + 1);
         }
     }, [history, historyIndex]);
@@ -448,13 +523,21 @@ const App: React.FC = () => {
         const newSelection: string[] = [];
 
         const newImages = images.map(img => {
-            if (idsToUncrop.has(img.id) && img.uncroppedFromId && archivedImages[img.uncroppedFromId]) {
+            if (!idsToUncrop.has(img.id)) return img;
+            if (img.uncroppedFromId && archivedImages[img.uncroppedFromId]) {
                 const original = { ...archivedImages[img.uncroppedFromId] };
                 original.x = img.x + (img.width / 2) - (original.width * original.scale / 2);
                 original.y = img.y + (img.height / 2) - (original.height * original.scale / 2);
                 newSelection.push(original.id);
                 return original;
             }
+            // A bake only replaced the pixels, so only they are restored.
+            const unbaked = img.bakedFromId ? archivedImages[img.bakedFromId] : undefined;
+            if (unbaked) {
+                const { element, adjustments, toneCurve, filters } = unbaked;
+                newSelection.push(img.id);
+                return { ...img, element, adjustments, toneCurve, filters, bakedFromId: undefined };
+            }
             return img;
         });
 
@@ -465,6 +548,76 @@ const App: React.FC = () => {
         });
     }, [pushHistory, images, archivedImages, setAppState]);
 
+    // Quarter turns only change `rotation`, so the pixels are never resampled. Annotations turn
+    // with the image and stay on the same content; text is turned back so it stays upright.
+    const handleRotateImages90 = useCallback((direction: 1 | -1) => {
+        if (!images.some(img => selectedImageIds.includes(img.id) && !img.locked)) return;
+        const newImages = images.map(img => {
+            if (!selectedImageIds.includes(img.id) || img.locked) return img;
+            return {
+                ...img,
+                rotation: (((img.rotation + 90 * direction) % 360) + 360) % 360,
+                annotations: img.annotations.map(anno => anno.type === 'text' ? { ...anno, rotation: anno.rotation - 90 * direction } : anno),
+            };
+        });
+        pushHistory({ images: newImages });
+    }, [images, selectedImageIds, pushHistory]);
+
+    // Mirrors the selected images in place. Their annotations are mirrored along, so they keep pointing at the same content.
+    const handleFlipImages = useCallback((axis: 'x' | 'y') => {
+        if (!images.some(img => selectedImageIds.includes(img.id) && !img.locked)) return;
+        const ctx = document.createElement('canvas').getContext('2d');
+        if (!ctx) return;
+        const newImages = images.map(img => {
+            if (!selectedImageIds.includes(img.id) || img.locked) return img;
+            return {
+                ...img,
+                ...(axis === 'x' ? { flipX: !img.flipX } : { flipY: !img.flipY }),
+                annotations: img.annotations.map(anno => mirrorAnnotation(anno, axis, img, ctx)),
+            };
+        });
+        pushHistory({ images: newImages });
+    }, [images, selectedImageIds, pushHistory]);
+
+    // Sets automatic white balance, brightness and contrast from each selected image's histogram,
+    // replacing the entries an earlier run added. Images still loading have no pixels to analyze yet.
+    const handleAutoEnhance = useCallback(() => {
+        const newImages = images.map(img => {
+            if (!selectedImageIds.includes(img.id) || img.locked || !hasElementPixels(img.element)) return img;
+            const manual = (img.adjustments ?? []).filter(adj => !adj.auto);
+            const previous = (img.adjustments ?? []).filter(adj => adj.auto);
+            const auto = createAutoAdjustments(computeImageHistogram({ ...img, adjustments: manual }));
+            const unchanged = previous.length === auto.length && previous.every((adj, i) => adj.enabled && adj.type === auto[i].type && adj.value === auto[i].value);
+            return unchanged ? img : { ...img, adjustments: [...manual, ...auto] };
+        });
+        if (newImages.every((img, i) => img === images[i])) return;
+        pushHistory({ images: newImages });
+    }, [images, selectedImageIds, pushHistory]);
+
+    // Writes the selected image's pixel edits and `filter` into a new element.
+    // The original pixels are archived, so Uncrop Image brings them back.
+    const handleBakeFilter = useCallback(async (filter: ImageFilter) => {
+        const image = images.find(img => img.id === selectedImageIds[0]);
+        if (!image || selectedImageIds.length !== 1) return;
+        try {
+            const blob = await renderProcessedImageBlob({ ...image, filters: [...(image.filters ?? []), filter] });
+            const element = await createImageElementFromBlob(blob);
+            // Only the pixel source is archived; Uncrop puts it back and keeps everything else.
+            const archiveId = image.bakedFromId ?? `baked-${image.id}`;
+            const { images: currentImages, archivedImages: currentArchived } = appStateRef.current;
+            const newImages = currentImages.map(img => img.id === image.id
+                ? { ...img, element, adjustments: [], toneCurve: undefined, filters: [], bakedFromId: archiveId }
+                : img);
+            pushHistory({
+                images: newImages,
+                archivedImages: currentArchived[archiveId] ? currentArchived : { ...currentArchived, [archiveId]: { ...image } },
+            });
+        } catch (e) {
+            console.error(e);
+            alert(`Could not apply the filter: ${e instanceof Error ? e.message : String(e)}`);
+        }
+    }, [images, selectedImageIds, pushHistory]);
+
     const updateSelectedImages = useCallback((changes: Partial<Omit<CanvasImage, 'id' | 'annotations' | 'createdAt' | 'name' | 'element' | 'width' | 'height'>>) => {
       resetLastArrangement();
       const newImages = images.map(img => selectedImageIds.includes(img.id) ? { ...img, ...changes } : img);
@@ -622,19 +775,13 @@ const App: React.FC = () => {
                  x: newX,
                  y: newY,
                  annotations: newAnnotations,
-                 cropRect: {
-                     x: (img.cropRect?.x ?? 0) + cropX,
-                     y: (img.cropRect?.y ?? 0) + cropY,
-                     width: newWidth,
-                     height: newHeight
-                 },
+                 cropRect: getSourceRect({ x: cropX, y: cropY, width: newWidth, height: newHeight }, img),
                  uncroppedFromId: img.uncroppedFromId || img.id
              };
         });
 
         if (hasChanges) {
-            setArchivedImages(newArchived);
-            pushHistory({ images: newImages });
+            pushHistory({ images: newImages, archivedImages: newArchived });
         }
         
         setCropArea(null);
@@ -967,29 +1114,314 @@ const App: React.FC = () => {
 
     // IMPLEMENTATION OF MISSING HANDLERS
 
+    const applyLoadedProject = useCallback((loaded: ProjectState, selection?: SessionSelection) => {
+        if (loaded.toolOptions) setToolOptions(prev => ({ ...prev, ...loaded.toolOptions }));
+        if (loaded.viewTransform) setViewTransform(loaded.viewTransform);
+        setCropArea(null);
+        setExpandedImageAnnotationIds([]);
+        // Keep presets that came with the project so its slices still export the same way.
+        setExportPresets(prev => [...prev, ...loaded.exportPresets.filter(p => !prev.some(existing => existing.id === p.id))]);
+        pushHistory({
+            images: loaded.images,
+            groups: loaded.groups,
+            canvasAnnotations: loaded.canvasAnnotations,
+            exportSlices: loaded.exportSlices,
+            archivedImages: loaded.archivedImages,
+            selectedImageIds: selection?.selectedImageIds ?? [],
+            selectedGroupIds: selection?.selectedGroupIds ?? [],
+            selectedAnnotations: selection?.selectedAnnotations ?? [],
+            selectedLayerId: selection?.selectedLayerId ?? null
+        });
+    }, [pushHistory]);
+
+    // Resolves with the user's choice in the EmbeddedProjectDialog. Questions from files decoded
+    // at the same time are queued, so each one gets its own dialog.
+    const embeddedProjectQueueRef = useRef<Promise<unknown>>(Promise.resolve());
+    const askToOpenEmbeddedProject = useCallback((fileName: string) => {
+        const answer = embeddedProjectQueueRef.current.then(() =>
+            new Promise<boolean>(resolve => setEmbeddedProjectPrompt({ fileName, resolve })));
+        embeddedProjectQueueRef.current = answer;
+        return answer;
+    }, []);
+
     const handleFileChange = useCallback(async (files: FileList | null) => {
-        if (!files) return;
-        const newImages: CanvasImage[] = [];
-        for (let i = 0; i < files.length; i++) {
-            const file = files[i];
+        if (!files || files.length === 0) return;
+        const entries = Array.from(files).sort(compareFilePaths);
+        const imageFiles = entries.filter(isImageFile);
+        const skipped = entries.filter(file => !isImageFile(file)).map(file => file.webkitRelativePath || file.name);
+        const viewportCenter = {
+            x: (window.innerWidth / 2 - viewTransform.offset.x) / viewTransform.scale,
+            y: (window.innerHeight / 2 - viewTransform.offset.y) / viewTransform.scale
+        };
+
+        // Decode several files at once, showing a placeholder for each until its image takes the spot.
+        // Every drop gets its own controller, so a new one doesn't cancel an import that is still running.
+        const controller = new AbortController();
+        const batchId = `import-${Date.now()}-${Math.random()}`;
+        importControllersRef.current.add(controller);
+        const placeholders = createImportPlaceholders(imageFiles, viewportCenter, batchId);
+        setImportPlaceholders(prev => [...prev, ...placeholders]);
+        setImportProgress(prev => ({ done: prev?.done ?? 0, total: (prev?.total ?? 0) + imageFiles.length, currentFile: prev?.currentFile ?? '' }));
+
+        const folderByImageId = new Map<string, string>();
+        // Set from the decode tasks, so declared with `as` to keep TypeScript from narrowing it to null.
+        let projectToOpen = null as ProjectState | null;
+        await mapWithConcurrency(imageFiles, IMPORT_CONCURRENCY, async (file, index) => {
+            const placeholderId = `${batchId}-${index}`;
             try {
-                const img = await readImageFile(file);
-                 // Center image in view
-                 const viewportCenter = {
-                     x: (window.innerWidth / 2 - viewTransform.offset.x) / viewTransform.scale,
-                     y: (window.innerHeight / 2 - viewTransform.offset.y) / viewTransform.scale
-                 };
-                 img.x = viewportCenter.x - img.width / 2;
-                 img.y = viewportCenter.y - img.height / 2;
-                newImages.push(img);
-            } catch (e) {
-                console.error(e);
+                const { image, embeddedProject } = await importImageFile(file, controller.signal);
+                if (!projectToOpen && embeddedProject && await askToOpenEmbeddedProject(file.name) && !projectToOpen) {
+                    try {
+                        projectToOpen = await deserializeProject(parseProjectFile(embeddedProject));
+                        return;
+                    } catch (e) {
+                        console.error(e);
+                        alert(`Could not open the project in "${file.name}". It will be added as a flat image.`);
+                    }
+                }
+                const placeholder = placeholders.find(p => p.id === placeholderId)!;
+                folderByImageId.set(image.id, getFolderPath(file));
+                setImages(prev => [...prev, fitImageToPlaceholder(image, placeholder)]);
+            } catch {
+                if (!controller.signal.aborted) skipped.push(file.webkitRelativePath || file.name);
+            } finally {
+                if (!controller.signal.aborted) {
+                    setImportProgress(prev => prev && { ...prev, done: prev.done + 1, currentFile: file.webkitRelativePath || file.name });
+                    setImportPlaceholders(prev => prev.filter(p => p.id !== placeholderId));
+                }
             }
+        });
+        importControllersRef.current.delete(controller);
+        setImportPlaceholders(prev => prev.filter(p => !p.id.startsWith(`${batchId}-`)));
+        if (importControllersRef.current.size === 0) setImportProgress(null);
+
+        // Lay the new images out in grids, one per folder, centered in the view. Images already removed
+        // from the canvas are left out; the latest state is read since it may have changed while decoding.
+        const current = appStateRef.current;
+        const imagesByFolder = new Map<string, CanvasImage[]>();
+        current.images.forEach(img => {
+            const folder = folderByImageId.get(img.id);
+            if (folder !== undefined) imagesByFolder.set(folder, [...(imagesByFolder.get(folder) ?? []), { ...img, scale: 1 }]);
+        });
+        let newImages = layoutFolderGrids(Array.from(imagesByFolder.values()), { x: 0, y: 0 });
+        const newGroups = createFolderGroups(new Map(Array.from(imagesByFolder, ([folder, imgs]) => [folder, imgs.map(img => img.id)])));
+        const bounds = getImagesBounds(newImages);
+        if (bounds) {
+            const dx = viewportCenter.x - (bounds.x + bounds.width / 2);
+            const dy = viewportCenter.y - (bounds.y + bounds.height / 2);
+            newImages = newImages.map(img => ({ ...img, x: img.x + dx, y: img.y + dy }));
+        }
+
+        if (projectToOpen) {
+            // Any other files from the same drop are added on top of the opened project.
+            applyLoadedProject({ ...projectToOpen, images: [...projectToOpen.images, ...newImages], groups: [...projectToOpen.groups, ...newGroups] });
+            setCurrentLibraryProjectId(null);
+        } else if (newImages.length > 0) {
+            // One history entry for the whole import, so a single undo removes it.
+            const laidOut = new Map(newImages.map(img => [img.id, img]));
+            pushHistory({ images: current.images.map(img => laidOut.get(img.id) ?? img), groups: [...current.groups, ...newGroups] });
         }
-        if (newImages.length > 0) {
-             pushHistory({ images: [...images, ...newImages] });
+
+        if (skipped.length > 0) {
+            const listed = skipped.slice(0, 10).map(name => `• ${name}`).join('\n');
+            const more = skipped.length > 10 ? `\n…and ${skipped.length - 10} more` : '';
+            alert(`Imported ${newImages.length} image${newImages.length === 1 ? '' : 's'}${newGroups.length > 0 ? ` into ${newGroups.length} folder group${newGroups.length === 1 ? '' : 's'}` : ''}.\n\nSkipped ${skipped.length} file${skipped.length === 1 ? '' : 's'} that could not be read as images:\n${listed}${more}`);
         }
-    }, [images, viewTransform, pushHistory]);
+    }, [viewTransform, pushHistory, applyLoadedProject, askToOpenEmbeddedProject]);
+
+    // Images that finished before the cancel stay on the canvas.
+    const handleCancelImport = useCallback(() => {
+        importControllersRef.current.forEach(controller => controller.abort());
+        importControllersRef.current.clear();
+        setImportProgress(null);
+        setImportPlaceholders([]);
+    }, []);
+
+    // Autosave
+    const autosaveTimeoutRef = useRef<number | null>(null);
+    const autosaveStateRef = useRef({ images, groups, canvasAnnotations, archivedImages, toolOptions, viewTransform, exportSlices, exportPresets, selectedImageIds, selectedGroupIds, selectedAnnotations, selectedLayerId });
+    autosaveStateRef.current = { images, groups, canvasAnnotations, archivedImages, toolOptions, viewTransform, exportSlices, exportPresets, selectedImageIds, selectedGroupIds, selectedAnnotations, selectedLayerId };
+
+    const writeSession = useCallback((isUnsaved: boolean) => {
+        const { selectedImageIds, selectedGroupIds, selectedAnnotations, selectedLayerId, ...project } = autosaveStateRef.current;
+        const write = project.images.length === 0 && project.canvasAnnotations.length === 0
+            ? clearSession()
+            : saveSession(project, { selectedImageIds, selectedGroupIds, selectedAnnotations, selectedLayerId }, isUnsaved);
+        // Autosave is best effort: a failed write is simply retried with the next change.
+        return write.catch(() => {});
+    }, []);
+
+    useEffect(() => {
+        loadSession()
+            .then(session => {
+                if (session?.isUnsaved && (session.project.images.length > 0 || session.project.canvasAnnotations.length > 0)) {
+                    setPendingSession(session);
+                } else {
+                    setIsSessionChecked(true);
+                }
+            })
+            .catch(() => setIsSessionChecked(true));
+        return () => {
+            if (autosaveTimeoutRef.current !== null) clearTimeout(autosaveTimeoutRef.current);
+        };
+    }, []);
+
+    useEffect(() => {
+        // Hold off until the user has answered the restore prompt, and skip the untouched initial state.
+        if (!isSessionChecked || historyIndex < 0 || autosaveTimeoutRef.current !== null) return;
+        autosaveTimeoutRef.current = window.setTimeout(() => {
+            autosaveTimeoutRef.current = null;
+            writeSession(true);
+        }, AUTOSAVE_INTERVAL_MS);
+    }, [isSessionChecked, historyIndex, images, groups, canvasAnnotations, archivedImages, toolOptions, exportSlices, selectedImageIds, selectedGroupIds, selectedAnnotations, selectedLayerId, writeSession]);
+
+    // Write a pending autosave right away when the tab is hidden or closed, instead of losing the last changes.
+    useEffect(() => {
+        const flushAutosave = () => {
+            if (autosaveTimeoutRef.current === null) return;
+            clearTimeout(autosaveTimeoutRef.current);
+            autosaveTimeoutRef.current = null;
+            writeSession(true);
+        };
+        const handleVisibilityChange = () => {
+            if (document.visibilityState === 'hidden') flushAutosave();
+        };
+        window.addEventListener('beforeunload', flushAutosave);
+        document.addEventListener('visibilitychange', handleVisibilityChange);
+        return () => {
+            window.removeEventListener('beforeunload', flushAutosave);
+            document.removeEventListener('visibilitychange', handleVisibilityChange);
+        };
+    }, [writeSession]);
+
+    const handleRestoreSession = useCallback(async () => {
+        if (!pendingSession) return;
+        try {
+            applyLoadedProject(await restoreSession(pendingSession), pendingSession.selection);
+        } catch (e) {
+            console.error(e);
+            alert(`Could not restore the previous session: ${e instanceof Error ? e.message : String(e)}`);
+        }
+        setPendingSession(null);
+        setIsSessionChecked(true);
+    }, [pendingSession, applyLoadedProject]);
+
+    const handleDiscardSession = useCallback(() => {
+        clearSession().catch(() => {});
+        setPendingSession(null);
+        setIsSessionChecked(true);
+    }, []);
+
+    // The work is now on disk, so don't offer to restore it on the next startup.
+    const markSessionSaved = useCallback(() => {
+        if (autosaveTimeoutRef.current !== null) {
+            clearTimeout(autosaveTimeoutRef.current);
+            autosaveTimeoutRef.current = null;
+        }
+        writeSession(false);
+    }, [writeSession]);
+
+    const handleSaveProject = useCallback(async () => {
+        try {
+            const project = await serializeProject({ images, groups, canvasAnnotations, archivedImages, toolOptions, viewTransform, exportSlices, exportPresets });
+            const blob = new Blob([JSON.stringify(project)], { type: 'application/json' });
+            downloadBlob(blob, `canvas-project.${PROJECT_FILE_EXTENSION}`);
+        } catch (e) {
+            console.error(e);
+            alert(`Could not save the project: ${e instanceof Error ? e.message : String(e)}`);
+            return;
+        }
+        markSessionSaved();
+    }, [images, groups, canvasAnnotations, archivedImages, toolOptions, viewTransform, exportSlices, exportPresets, markSessionSaved]);
+
+    const handleSavePackagedProject = useCallback(async () => {
+        try {
+            const blob = await createPackagedProject({ images, groups, canvasAnnotations, archivedImages, toolOptions, viewTransform, exportSlices, exportPresets });
+            downloadBlob(blob, `canvas-project.${PACKAGED_PROJECT_EXTENSION}`);
+        } catch (e) {
+            console.error(e);
+            alert(`Could not save the project: ${e instanceof Error ? e.message : String(e)}`);
+            return;
+        }
+        markSessionSaved();
+    }, [images, groups, canvasAnnotations, archivedImages, toolOptions, viewTransform, exportSlices, exportPresets, markSessionSaved]);
+
+    const handleLoadProject = useCallback(async (file: File) => {
+        try {
+            const loaded = await isZipFile(file)
+                ? await readPackagedProject(file)
+                : await deserializeProject(parseProjectFile(await file.text()));
+            applyLoadedProject(loaded);
+            setCurrentLibraryProjectId(null);
+        } catch (e) {
+            console.error(e);
+            alert(`Could not open "${file.name}": ${e instanceof Error ? e.message : String(e)}`);
+        }
+    }, [applyLoadedProject]);
+
+    // Project Library
+    const refreshLibrary = useCallback(() => {
+        listLibraryProjects().then(setLibraryProjects).catch(e => {
+            console.error(e);
+            alert(`Could not read the project library: ${e instanceof Error ? e.message : String(e)}`);
+        });
+    }, []);
+
+    useEffect(() => { refreshLibrary(); }, [refreshLibrary]);
+
+    const handleSaveToLibrary = useCallback(async () => {
+        const existing = libraryProjects.find(p => p.id === currentLibraryProjectId);
+        let id = existing?.id;
+        let name = existing?.name;
+        if (!id || !name) {
+            const entered = prompt('Project name', `Untitled ${new Date().toLocaleDateString()}`);
+            if (entered === null) return;
+            id = `project-${Date.now()}-${Math.random()}`;
+            name = entered.trim() || 'Untitled';
+        }
+        try {
+            await prepareProcessedSources(getRenderableImages(images, groups));
+            const thumbnail = createThumbnailDataUrl(images, canvasAnnotations, groups);
+            await saveLibraryProject(id, name, { images, groups, canvasAnnotations, archivedImages, toolOptions, viewTransform, exportSlices, exportPresets }, thumbnail);
+            setCurrentLibraryProjectId(id);
+            refreshLibrary();
+        } catch (e) {
+            console.error(e);
+            alert(`Could not save the project to the library: ${e instanceof Error ? e.message : String(e)}`);
+        }
+    }, [libraryProjects, currentLibraryProjectId, images, groups, canvasAnnotations, archivedImages, toolOptions, viewTransform, exportSlices, exportPresets, refreshLibrary]);
+
+    const handleOpenLibraryProject = useCallback(async (id: string) => {
+        try {
+            applyLoadedProject(await openLibraryProject(id));
+            setCurrentLibraryProjectId(id);
+        } catch (e) {
+            console.error(e);
+            alert(`Could not open the project: ${e instanceof Error ? e.message : String(e)}`);
+        }
+    }, [applyLoadedProject]);
+
+    const handleRenameLibraryProject = useCallback((id: string, name: string) => {
+        renameLibraryProject(id, name).then(refreshLibrary).catch(e => {
+            console.error(e);
+            alert(`Could not rename the project: ${e instanceof Error ? e.message : String(e)}`);
+        });
+    }, [refreshLibrary]);
+
+    const handleDuplicateLibraryProject = useCallback((id: string) => {
+        duplicateLibraryProject(id).then(refreshLibrary).catch(e => {
+            console.error(e);
+            alert(`Could not duplicate the project: ${e instanceof Error ? e.message : String(e)}`);
+        });
+    }, [refreshLibrary]);
+
+    const handleDeleteLibraryProject = useCallback((id: string) => {
+        if (id === currentLibraryProjectId) setCurrentLibraryProjectId(null);
+        deleteLibraryProject(id).then(refreshLibrary).catch(e => {
+            console.error(e);
+            alert(`Could not delete the project: ${e instanceof Error ? e.message : String(e)}`);
+        });
+    }, [currentLibraryProjectId, refreshLibrary]);
 
     const onBoxSelect = useCallback((ids: string[], annos: AnnotationSelection[], opts: { shiftKey: boolean, ctrlKey: boolean }) => {
          if (opts.ctrlKey) {
@@ -1232,24 +1664,7 @@ const App: React.FC = () => {
 
         const sortedImages = selectedImagesWithIndices.map(item => item.img);
         const selectionBounds = getImagesBounds(sortedImages)!;
-        let currentX = selectionBounds.x;
-        let currentY = selectionBounds.y;
-        const padding = 10;
-
-        const updates = new Map<string, { x: number, y: number }>();
-
-        sortedImages.forEach(img => {
-            const imgBounds = getImagesBounds([img])!;
-            const deltaX = currentX - imgBounds.x;
-            const deltaY = currentY - imgBounds.y;
-            updates.set(img.id, { x: img.x + deltaX, y: img.y + deltaY });
-            
-            if (direction === 'horizontal') {
-                currentX += imgBounds.width + padding;
-            } else {
-                currentY += imgBounds.height + padding;
-            }
-        });
+        const updates = getArrangedPositions(sortedImages, direction, selectionBounds, 10);
 
         const newImages = images.map(img => {
             if (updates.has(img.id)) {
@@ -1275,24 +1690,7 @@ const App: React.FC = () => {
 
         const sortedImages = selectedImagesWithIndices.map(item => item.img);
         const selectionBounds = getImagesBounds(sortedImages)!;
-        let currentX = selectionBounds.x;
-        let currentY = selectionBounds.y;
-        const padding = 0; // Stacked edge-to-edge
-
-        const updates = new Map<string, { x: number, y: number }>();
-
-        sortedImages.forEach(img => {
-            const imgBounds = getImagesBounds([img])!;
-            const deltaX = currentX - imgBounds.x;
-            const deltaY = currentY - imgBounds.y;
-            updates.set(img.id, { x: img.x + deltaX, y: img.y + deltaY });
-            
-            if (direction === 'horizontal') {
-                currentX += imgBounds.width + padding;
-            } else {
-                currentY += imgBounds.height + padding;
-            }
-        });
+        const updates = getArrangedPositions(sortedImages, direction, selectionBounds, 0); // Stacked edge-to-edge
 
         const newImages = images.map(img => {
             if (updates.has(img.id)) {
@@ -1452,6 +1850,8 @@ const App: React.FC = () => {
                 onMatchImageSizes={handleMatchImageSizes}
                 exportFormat={exportFormat}
                 setExportFormat={setExportFormat}
+                exportAsSeparateFiles={exportAsSeparateFiles}
+                setExportAsSeparateFiles={setExportAsSeparateFiles}
                 onFitCropToImage={() => { /* impl */ }}
                 isLocked={isLocked}
                 onClearAllCanvas={() => {
@@ -1462,27 +1862,54 @@ const App: React.FC = () => {
                     setSelectedGroupIds([]);
                     setSelectedAnnotations([]);
                     setCropArea(null);
-                    pushHistory({ images: [], groups: [], canvasAnnotations: [], selectedImageIds: [], selectedGroupIds: [], selectedAnnotations: [] });
+                    setCurrentLibraryProjectId(null);
+                    pushHistory({ images: [], groups: [], canvasAnnotations: [], exportSlices: [], selectedImageIds: [], selectedGroupIds: [], selectedAnnotations: [] });
                 }}
-                onDownloadAllCanvas={() => renderAndDownload(images, canvasAnnotations, null, `canvas-export.${exportFormat}`)}
+                onExportPdf={handleExportPdf}
+                onOpenExportOptions={() => setIsExportOptionsOpen(true)}
+                exportSlices={exportSlices}
+                exportPresets={exportPresets}
+                onSaveCropAsSlice={handleSaveCropAsSlice}
+                onUpdateExportSlice={handleUpdateExportSlice}
+                onDeleteExportSlice={handleDeleteExportSlice}
+                onExportSlices={handleExportSlices}
+                onDownloadAllCanvas={() => exportAsSeparateFiles
+                    ? downloadSeparateFiles(images, canvasAnnotations, 'canvas-export.zip')
+                    : renderAndDownload(images, canvasAnnotations, null, `canvas-export.${getExportFileExtension(exportFormat)}`)}
                 onUncrop={handleUncrop}
-                onSaveProject={() => { /* impl */ }}
-                onLoadProject={() => { /* impl */ }}
+                onBakeFilter={handleBakeFilter}
+                onAutoEnhance={handleAutoEnhance}
+                onRotateImages90={handleRotateImages90}
+                onFlipImages={handleFlipImages}
+                onSaveProject={handleSaveProject}
+                onLoadProject={handleLoadProject}
+                onSavePackagedProject={handleSavePackagedProject}
                 onCreateGroup={onCreateGroup}
                 images={images}
                 onDownloadSelectedImages={() => {
                      const selectedImages = images.filter(i => selectedImageIds.includes(i.id));
                      const selectedCanvasAnnos = canvasAnnotations.filter(a => selectedAnnotations.some(s => s.annotationId === a.id && s.imageId === null));
-                     
+                     if (exportAsSeparateFiles) {
+                         downloadSeparateFiles(selectedImages, selectedCanvasAnnos, 'selection-export.zip');
+                         return;
+                     }
+
                      if (selectedImages.length === 0 && selectedCanvasAnnos.length === 0) return;
 
-                     renderAndDownload(selectedImages, selectedCanvasAnnos, null, `selection-export.${exportFormat}`);
+                     renderAndDownload(selectedImages, selectedCanvasAnnos, null, `selection-export.${getExportFileExtension(exportFormat)}`);
                 }}
                 isDirty={historyIndex >= 0}
                 selectedAnnotationObjects={selectedAnnotationObjects}
                 onUpdateSelectedAnnotations={updateSelectedAnnotations}
                 deleteSelectedAnnotations={deleteSelectedAnnotations}
                 onCrop={handleApplyCrop}
+                libraryProjects={libraryProjects}
+                currentLibraryProjectId={currentLibraryProjectId}
+                onSaveToLibrary={handleSaveToLibrary}
+                onOpenLibraryProject={handleOpenLibraryProject}
+                onRenameLibraryProject={handleRenameLibraryProject}
+                onDuplicateLibraryProject={handleDuplicateLibraryProject}
+                onDeleteLibraryProject={handleDeleteLibraryProject}
             />
             <div className="flex-1 relative flex flex-col">
                 <div className="flex-1 relative overflow-hidden">
@@ -1502,6 +1929,8 @@ const App: React.FC = () => {
                         onBoxSelect={onBoxSelect}
                         cropArea={cropArea}
                         setCropArea={setCropArea}
+                        exportSlices={exportSlices}
+                        importPlaceholders={importPlaceholders}
                         aspectRatio={aspectRatio}
                         activeTool={activeTool}
                         setActiveTool={setActiveTool}
@@ -1577,6 +2006,36 @@ const App: React.FC = () => {
                 onToggleLock={toggleLayerLock}
                 onDuplicateLayer={duplicateLayer}
             />
+            {isExportOptionsOpen && (
+                <ExportOptionsDialog
+                    options={exportOptions}
+                    exportFormat={exportFormat}
+                    presets={exportPresets}
+                    onChange={setExportOptions}
+                    onApplyPreset={handleApplyExportPreset}
+                    onSavePreset={handleSaveExportPreset}
+                    onDeletePreset={handleDeleteExportPreset}
+                    onClose={() => setIsExportOptionsOpen(false)}
+                />
+            )}
+            {embeddedProjectPrompt && (
+                <EmbeddedProjectDialog
+                    fileName={embeddedProjectPrompt.fileName}
+                    onOpenProject={() => { embeddedProjectPrompt.resolve(true); setEmbeddedProjectPrompt(null); }}
+                    onAddAsImage={() => { embeddedProjectPrompt.resolve(false); setEmbeddedProjectPrompt(null); }}
+                />
+            )}
+            {importProgress && (
+                <ImportProgress done={importProgress.done} total={importProgress.total} currentFile={importProgress.currentFile} onCancel={handleCancelImport} />
+            )}
+            {pendingSession && (
+                <RestoreSessionDialog
+                    savedAt={pendingSession.savedAt}
+                    imageCount={pendingSession.project.images.length}
+                    onRestore={handleRestoreSession}
+                    onDiscard={handleDiscardSession}
+                />
+            )}
         </div>
     );
 };
@@ -0,0 +1,84 @@
+import React from 'react';
+import { AdjustmentType, ImageAdjustment } from '../types';
+import { ADJUSTMENT_DEFINITIONS, createAdjustment } from '../utils/adjustmentUtils';
+import { ChevronDownIcon, ChevronUpIcon, TrashIcon } from './icons';
+
+interface AdjustmentsPanelProps {
+  adjustments: ImageAdjustment[];
+  onChange: (adjustments: ImageAdjustment[]) => void;
+}
+
+export const AdjustmentsPanel: React.FC<AdjustmentsPanelProps> = ({ adjustments, onChange }) => {
+  const update = (id: string, changes: Partial<ImageAdjustment>) =>
+    onChange(adjustments.map(adj => adj.id === id ? { ...adj, ...changes } : adj));
+
+  const move = (index: number, direction: -1 | 1) => {
+    const next = [...adjustments];
+    [next[index], next[index + direction]] = [next[index + direction], next[index]];
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-2">
+      <select
+        value=""
+        onChange={e => e.target.value && onChange([...adjustments, createAdjustment(e.target.value as AdjustmentType)])}
+        className="w-full bg-gray-800 rounded-md border border-gray-600 focus:ring-blue-500 focus:border-blue-500 text-xs p-1"
+      >
+        <option value="">Add adjustment…</option>
+        {(Object.keys(ADJUSTMENT_DEFINITIONS) as AdjustmentType[]).map(type => (
+          <option key={type} value={type}>{ADJUSTMENT_DEFINITIONS[type].label}</option>
+        ))}
+      </select>
+
+      {adjustments.length === 0 ? (
+        <p className="text-xs text-gray-500 text-center py-2">No adjustments. The original pixels are shown.</p>
+      ) : (
+        <ul className="space-y-2">
+          {adjustments.map((adj, index) => {
+            const definition = ADJUSTMENT_DEFINITIONS[adj.type];
+            return (
+              <li key={adj.id} className={`p-2 rounded-md bg-gray-800 space-y-1 ${adj.enabled ? '' : 'opacity-60'}`}>
+                <div className="flex items-center gap-1">
+                  <input
+                    type="checkbox"
+                    checked={adj.enabled}
+                    onChange={e => update(adj.id, { enabled: e.target.checked })}
+                    title={adj.enabled ? 'Disable' : 'Enable'}
+                    className="rounded bg-gray-700 border-gray-600 text-blue-500 focus:ring-blue-500"
+                  />
+                  <p className="flex-1 min-w-0 text-sm font-medium text-gray-200 truncate">{definition.label}</p>
+                  <button onClick={() => move(index, -1)} disabled={index === 0} title="Move up" className="p-1 rounded text-gray-400 hover:text-white hover:bg-gray-700 disabled:opacity-30 disabled:hover:bg-transparent"><ChevronUpIcon className="w-3.5 h-3.5" /></button>
+                  <button onClick={() => move(index, 1)} disabled={index === adjustments.length - 1} title="Move down" className="p-1 rounded text-gray-400 hover:text-white hover:bg-gray-700 disabled:opacity-30 disabled:hover:bg-transparent"><ChevronDownIcon className="w-3.5 h-3.5" /></button>
+                  <button onClick={() => onChange(adjustments.filter(a => a.id !== adj.id))} title="Remove" className="p-1 rounded text-gray-400 hover:text-red-400 hover:bg-gray-700"><TrashIcon className="w-3.5 h-3.5" /></button>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <input
+                    type="range"
+                    min={definition.min}
+                    max={definition.max}
+                    step={definition.step}
+                    value={adj.value}
+                    onChange={e => update(adj.id, { value: parseFloat(e.target.value) })}
+                    onDoubleClick={() => update(adj.id, { value: definition.defaultValue })}
+                    title="Double-click to reset"
+                    className="w-full"
+                  />
+                  <span className="text-xs font-mono w-16 text-center bg-gray-900 rounded-md py-1 border border-gray-700">
+                    {adj.value.toFixed(definition.step < 1 ? 2 : 0)}{definition.unit ?? ''}
+                  </span>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {adjustments.length > 0 && (
+        <button onClick={() => onChange([])} className="w-full flex items-center justify-center bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 px-4 rounded-md transition-colors duration-200">
+          Reset to Original
+        </button>
+      )}
+    </div>
+  );
+};
@@ -1,8 +1,11 @@
 import React, { useRef, useEffect, useState, useCallback, forwardRef, useImperativeHandle, useLayoutEffect } from 'react';
-import { CanvasImage, Rect, Point, AspectRatio, AnnotationTool, Annotation, FreehandAnnotation, RectAnnotation, CircleAnnotation, TextAnnotation, ArrowAnnotation, LineAnnotation, Group } from '../types';
+import { CanvasImage, Rect, Point, AspectRatio, AnnotationTool, Annotation, FreehandAnnotation, RectAnnotation, CircleAnnotation, TextAnnotation, ArrowAnnotation, LineAnnotation, Group, ExportSlice, ImportPlaceholder } from '../types';
 import { readImageFile } from '../utils/fileUtils';
-import { drawCanvas, getAnnotationBounds, getAnnotationPrimitiveBounds, getMultiAnnotationBounds, transformLocalToGlobal, rectIntersect, getCropHandles, CropHandle, getImagesBounds } from '../utils/canvasUtils';
+import { drawCanvas, getAnnotationBounds, getAnnotationPrimitiveBounds, getMultiAnnotationBounds, getCropHandles, CropHandle, getImagesBounds, transformLocalRectToGlobal, watchDevicePixelRatio } from '../utils/canvasUtils';
 import { rgbToHex } from '../utils/colorUtils';
+import { subscribeToImageLevels } from '../utils/mipmapUtils';
+import { subscribeToProcessedImages } from '../utils/imageProcessingUtils';
+import { createSpatialIndex } from '../utils/spatialIndexUtils';
 
 type AnnotationSelection = { imageId: string | null; annotationId: string; };
 
@@ -17,6 +20,8 @@ interface CanvasWrapperProps {
   onBoxSelect: (imageIds: string[], annotationSelections: AnnotationSelection[], options: { shiftKey: boolean, ctrlKey: boolean }) => void;
   cropArea: Rect | null;
   setCropArea: React.Dispatch<React.SetStateAction<Rect | null>>;
+  exportSlices: ExportSlice[];
+  importPlaceholders: ImportPlaceholder[];
   aspectRatio: AspectRatio;
   activeTool: AnnotationTool;
   setActiveTool: (tool: AnnotationTool) => void;
@@ -59,6 +64,13 @@ type InteractionState =
   | { mode: 'scale-multi-annotation'; startPoint: Point; center: Point; initialAnnotations: Annotation[]; initialSelections: AnnotationSelection[]; startDist: number; }
   | { mode: 'rotate-multi-annotation'; startPoint: Point; center: Point; initialAnnotations: Annotation[]; initialSelections: AnnotationSelection[]; startAngle: number; };
 
+// Hit tolerance for annotations, in screen pixels
+const HIT_TOLERANCE_PX = 12;
+
+// Keys of the items in the spatial index
+const imageKey = (imageId: string) => `image:${imageId}`;
+const annotationKey = (imageId: string | null, annotationId: string) => `annotation:${imageId ?? 'canvas'}:${annotationId}`;
+
 const isPointInRect = (point: Point, rect: Rect) => {
     const rx = rect.width < 0 ? rect.x + rect.width : rect.x;
     const ry = rect.height < 0 ? rect.y + rect.height : rect.y;
@@ -79,6 +91,8 @@ export const CanvasWrapper = forwardRef<HTMLCanvasElement, CanvasWrapperProps>((
   onBoxSelect,
   cropArea,
   setCropArea,
+  exportSlices,
+  importPlaceholders,
   aspectRatio,
   activeTool,
   toolOptions,
@@ -114,6 +128,8 @@ export const CanvasWrapper = forwardRef<HTMLCanvasElement, CanvasWrapperProps>((
   const [isSpacebarPressed, setIsSpacebarPressed] = useState(false);
   const [marqueeRect, setMarqueeRect] = useState<Rect | null>(null);
   const [dropTargetImageId, setDropTargetImageId] = useState<string | null>(null);
+  const [imagePixelsVersion, setImagePixelsVersion] = useState(0);
+  const [pixelRatio, setPixelRatio] = useState(() => window.devicePixelRatio || 1);
 
   useEffect(() => {
     const canvas = internalCanvasRef.current;
@@ -122,6 +138,57 @@ export const CanvasWrapper = forwardRef<HTMLCanvasElement, CanvasWrapperProps>((
     }
   }, []);
 
+  // World-space bounds of images and annotations for hit testing and box select.
+  // Only images and annotations whose object changed since the last sync are re-measured.
+  const spatialIndexRef = useRef(createSpatialIndex());
+  const indexedItemsRef = useRef({ images: new Map<string, CanvasImage>(), canvasAnnotations: new Map<string, Annotation>() });
+  const annotationBoundsRef = useRef(new WeakMap<Annotation, Rect>());
+
+  useEffect(() => {
+    const ctx = contextRef.current;
+    if (!ctx) return;
+    const index = spatialIndexRef.current;
+    const indexed = indexedItemsRef.current;
+    const getLocalBounds = (annotation: Annotation) => {
+      let bounds = annotationBoundsRef.current.get(annotation);
+      if (!bounds) {
+        bounds = getAnnotationBounds(annotation, ctx);
+        annotationBoundsRef.current.set(annotation, bounds);
+      }
+      return bounds;
+    };
+
+    const imageIds = new Set(images.map(img => img.id));
+    indexed.images.forEach((image, id) => {
+      if (imageIds.has(id)) return;
+      index.delete(imageKey(id));
+      image.annotations.forEach(anno => index.delete(annotationKey(id, anno.id)));
+      indexed.images.delete(id);
+    });
+    images.forEach(image => {
+      const previous = indexed.images.get(image.id);
+      if (previous === image) return;
+      previous?.annotations.forEach(anno => index.delete(annotationKey(image.id, anno.id)));
+      // Hidden images are indexed too; callers decide whether they count.
+      const bounds = getImagesBounds([{ ...image, visible: true }]);
+      if (bounds) index.set(imageKey(image.id), bounds);
+      image.annotations.forEach(anno => index.set(annotationKey(image.id, anno.id), transformLocalRectToGlobal(getLocalBounds(anno), image)));
+      indexed.images.set(image.id, image);
+    });
+
+    const annotationIds = new Set(canvasAnnotations.map(anno => anno.id));
+    indexed.canvasAnnotations.forEach((_, id) => {
+      if (annotationIds.has(id)) return;
+      index.delete(annotationKey(null, id));
+      indexed.canvasAnnotations.delete(id);
+    });
+    canvasAnnotations.forEach(anno => {
+      if (indexed.canvasAnnotations.get(anno.id) === anno) return;
+      index.set(annotationKey(null, anno.id), getLocalBounds(anno));
+      indexed.canvasAnnotations.set(anno.id, anno);
+    });
+  }, [images, canvasAnnotations]);
+
   // Add Resize Observer to handle canvas sizing properly
   useEffect(() => {
       const updateSize = () => {
@@ -204,6 +271,15 @@ export const CanvasWrapper = forwardRef<HTMLCanvasElement, CanvasWrapperProps>((
       return null;
   }, [getUnboundedLocalPoint]);
 
+  // Topmost image containing the point.
+  const findImageAtPoint = useCallback((canvasPoint: Point): CanvasImage | undefined => {
+      const candidates = spatialIndexRef.current.queryPoint(canvasPoint);
+      for (let i = images.length - 1; i >= 0; i--) {
+        if (candidates.has(imageKey(images[i].id)) && getLocalPoint(canvasPoint, images[i]) !== null) return images[i];
+      }
+      return undefined;
+  }, [images, getLocalPoint]);
+
     const getAnnotationLocalPoint = useCallback((canvasPoint: Point, annotation: Annotation, image: CanvasImage | null, ctx: CanvasRenderingContext2D): Point => {
         const annoPrimitiveBounds = getAnnotationPrimitiveBounds(annotation, ctx);
         
@@ -272,8 +348,6 @@ export const CanvasWrapper = forwardRef<HTMLCanvasElement, CanvasWrapperProps>((
          
          const localPointInAnnotation = { x: p.x + center.x, y: p.y + center.y };
 
-         // Define hit tolerance in screen pixels
-         const HIT_TOLERANCE_PX = 12;
          const localTolerance = HIT_TOLERANCE_PX / (imageScale * viewTransform.scale * Math.abs(effectiveScale));
 
          if (annotation.type === 'line' || annotation.type === 'arrow' || annotation.type === 'freehand') {
@@ -315,9 +389,13 @@ export const CanvasWrapper = forwardRef<HTMLCanvasElement, CanvasWrapperProps>((
          }
     };
 
+    // Only annotations whose bounds are near the point need the exact test.
+    const candidates = spatialIndexRef.current.queryPoint(canvasPoint, HIT_TOLERANCE_PX / viewTransform.scale);
+
     for (const image of [...images].reverse()) {
         const localPointInImage = getUnboundedLocalPoint(canvasPoint, image);
         for (const annotation of [...image.annotations].reverse()) {
+            if (!candidates.has(annotationKey(image.id, annotation.id))) continue;
             if (checkAnnotation(annotation, localPointInImage, image.scale)) {
                 return { imageId: image.id, annotationId: annotation.id };
             }
@@ -325,6 +403,7 @@ export const CanvasWrapper = forwardRef<HTMLCanvasElement, CanvasWrapperProps>((
     }
 
     for (const annotation of [...canvasAnnotations].reverse()) {
+        if (!candidates.has(annotationKey(null, annotation.id))) continue;
         if (checkAnnotation(annotation, canvasPoint, 1)) {
              return { imageId: null, annotationId: annotation.id };
         }
@@ -333,12 +412,36 @@ export const CanvasWrapper = forwardRef<HTMLCanvasElement, CanvasWrapperProps>((
   }, [images, getUnboundedLocalPoint, viewTransform.scale, canvasAnnotations]);
   
 
+  useEffect(() => watchDevicePixelRatio(setPixelRatio), []);
+
+  // Redraw once downscaled levels of large images, or processed pixels, are ready.
+  useEffect(() => subscribeToImageLevels(() => setImagePixelsVersion(v => v + 1)), []);
+  useEffect(() => subscribeToProcessedImages(() => setImagePixelsVersion(v => v + 1)), []);
+
+  // Rendering happens at most once per animation frame, and only after something changed:
+  // every change replaces the pending render with one that uses the latest state.
+  const renderRef = useRef<() => void>(() => {});
+  const renderFrameRef = useRef<number | null>(null);
+
   useLayoutEffect(() => {
-    const canvas = internalCanvasRef.current;
-    const ctx = contextRef.current;
-    if (!canvas || !ctx) return;
-    drawCanvas(ctx, canvas, images, selectedImageIds, cropArea, viewTransform, drawingAnnotation, selectedAnnotations, marqueeRect, groups, canvasAnnotations, dropTargetImageId, selectedLayerId);
-  }, [images, selectedImageIds, cropArea, viewTransform, drawingAnnotation, selectedAnnotations, marqueeRect, groups, canvasAnnotations, dropTargetImageId, selectedLayerId, canvasSize]);
+    renderRef.current = () => {
+      const canvas = internalCanvasRef.current;
+      const ctx = contextRef.current;
+      if (!canvas || !ctx) return;
+      drawCanvas(ctx, canvas, images, selectedImageIds, cropArea, viewTransform, drawingAnnotation, selectedAnnotations, marqueeRect, groups, canvasAnnotations, dropTargetImageId, selectedLayerId, exportSlices, importPlaceholders, pixelRatio);
+    };
+    if (renderFrameRef.current === null) {
+      renderFrameRef.current = requestAnimationFrame(() => {
+        renderFrameRef.current = null;
+        renderRef.current();
+      });
+    }
+  }, [images, selectedImageIds, cropArea, exportSlices, importPlaceholders, viewTransform, drawingAnnotation, selectedAnnotations, marqueeRect, groups, canvasAnnotations, dropTargetImageId, selectedLayerId, canvasSize, imagePixelsVersion, pixelRatio]);
+
+  useEffect(() => () => {
+    if (renderFrameRef.current !== null) cancelAnimationFrame(renderFrameRef.current);
+    renderFrameRef.current = null;
+  }, []);
 
   const handleWheel = useCallback((e: React.WheelEvent) => {
     e.preventDefault();
@@ -371,8 +474,8 @@ export const CanvasWrapper = forwardRef<HTMLCanvasElement, CanvasWrapperProps>((
       const rect = canvas.getBoundingClientRect();
       const x = e.clientX - rect.left;
       const y = e.clientY - rect.top;
-      const dpr = window.devicePixelRatio;
-      const pixel = ctx.getImageData(x * dpr, y * dpr, 1, 1).data;
+      // Hit testing is in CSS pixels; the backing store may have more pixels than that.
+      const pixel = ctx.getImageData(Math.floor(x * canvas.width / rect.width), Math.floor(y * canvas.height / rect.height), 1, 1).data;
       onColorPicked(rgbToHex({ r: pixel[0], g: pixel[1], b: pixel[2] }));
       return;
     }
@@ -513,7 +616,7 @@ export const CanvasWrapper = forwardRef<HTMLCanvasElement, CanvasWrapperProps>((
       if (selectedImageIds.length === 1) {
         targetImage = images.find(img => img.id === selectedImageIds[0]);
       } else {
-        targetImage = [...images].reverse().find(img => getLocalPoint(canvasPoint, img));
+        targetImage = findImageAtPoint(canvasPoint);
       }
 
       if (targetImage) {
@@ -547,7 +650,7 @@ export const CanvasWrapper = forwardRef<HTMLCanvasElement, CanvasWrapperProps>((
       if (selectedImageIds.length === 1) {
         targetImage = images.find(img => img.id === selectedImageIds[0]);
       } else {
-        targetImage = [...images].reverse().find(img => getLocalPoint(canvasPoint, img));
+        targetImage = findImageAtPoint(canvasPoint);
       }
       
       const startPointForAnnotation = targetImage ? getUnboundedLocalPoint(canvasPoint, targetImage) : canvasPoint;
@@ -628,7 +731,7 @@ export const CanvasWrapper = forwardRef<HTMLCanvasElement, CanvasWrapperProps>((
         return;
       }
   
-      const clickedImage = [...images].reverse().find(img => getLocalPoint(canvasPoint, img) !== null);
+      const clickedImage = findImageAtPoint(canvasPoint);
   
       if (clickedImage) {
         const currentSelectedImageIds = appStateRef.current.selectedImageIds;
@@ -668,7 +771,7 @@ export const CanvasWrapper = forwardRef<HTMLCanvasElement, CanvasWrapperProps>((
         setMarqueeRect({ x: canvasPoint.x, y: canvasPoint.y, width: 0, height: 0 });
       }
     }
-  }, [getCanvasPoint, images, setSelectedImageId, cropArea, viewTransform.scale, activeTool, toolOptions, getLocalPoint, getUnboundedLocalPoint, addAnnotation, isCropKeyPressed, setCropArea, findAnnotationAtPoint, setSelectedAnnotations, isSpacebarPressed, onSelectImages, selectedImageIds, setActiveTool, onColorPicked, addCanvasAnnotation, selectedAnnotations, getAnnotationLocalPoint, canvasAnnotations, selectedAnnotationObjects, appStateRef]);
+  }, [getCanvasPoint, images, setSelectedImageId, cropArea, viewTransform.scale, activeTool, toolOptions, getLocalPoint, getUnboundedLocalPoint, addAnnotation, isCropKeyPressed, setCropArea, findAnnotationAtPoint, findImageAtPoint, setSelectedAnnotations, isSpacebarPressed, onSelectImages, selectedImageIds, setActiveTool, onColorPicked, addCanvasAnnotation, selectedAnnotations, getAnnotationLocalPoint, canvasAnnotations, selectedAnnotationObjects, appStateRef]);
 
   const handleCanvasMouseMove = useCallback((e: MouseEvent) => {
       if (!interaction) return;
@@ -750,7 +853,7 @@ export const CanvasWrapper = forwardRef<HTMLCanvasElement, CanvasWrapperProps>((
 
             updateMultipleAnnotationsForInteraction(updates);
 
-            const topmostImage = [...images].reverse().find(img => getLocalPoint(canvasPoint, img) !== null);
+            const topmostImage = findImageAtPoint(canvasPoint);
             const sourceImageIds = new Set(selectedAnnotations.map(s => s.imageId));
 
             if (topmostImage) {
@@ -906,7 +1009,7 @@ export const CanvasWrapper = forwardRef<HTMLCanvasElement, CanvasWrapperProps>((
         if (dropTargetImageId) setDropTargetImageId(null);
       }
 
-  }, [interaction, getCanvasPoint, viewTransform.scale, drawingAnnotation.annotation, aspectRatio, getUnboundedLocalPoint, images, updateAnnotation, updateMultipleAnnotationsForInteraction, lastMousePosition, dropTargetImageId, selectedAnnotations, getLocalPoint, drawingAnnotation.imageId, setImages]);
+  }, [interaction, getCanvasPoint, viewTransform.scale, drawingAnnotation.annotation, aspectRatio, getUnboundedLocalPoint, images, findImageAtPoint, updateAnnotation, updateMultipleAnnotationsForInteraction, lastMousePosition, dropTargetImageId, selectedAnnotations, getLocalPoint, drawingAnnotation.imageId, setImages]);
 
   const handleCanvasMouseUp = useCallback(() => {
     if (!interaction) {
@@ -918,7 +1021,7 @@ export const CanvasWrapper = forwardRef<HTMLCanvasElement, CanvasWrapperProps>((
 
     if (interaction.mode === 'move-annotation') {
         const currentPoint = lastCanvasMousePosition.current;
-        const imageUnderCursor = [...images].reverse().find(img => getLocalPoint(currentPoint, img) !== null);
+        const imageUnderCursor = findImageAtPoint(currentPoint);
 
         if (imageUnderCursor && dropTargetImageId === imageUnderCursor.id) {
             const targetId = imageUnderCursor.id;
@@ -957,16 +1060,14 @@ export const CanvasWrapper = forwardRef<HTMLCanvasElement, CanvasWrapperProps>((
         const rh = Math.abs(height);
         const selectionRect = { x: rx, y: ry, width: rw, height: rh };
         
-        const selectedImages = images.filter(img => {
-            const bounds = getImagesBounds([img]);
-            return bounds ? rectIntersect(selectionRect, bounds) : false;
-        }).map(img => img.id);
+        const hits = spatialIndexRef.current.queryRect(selectionRect);
+        const selectedImages = images.filter(img => img.visible !== false && hits.has(imageKey(img.id))).map(img => img.id);
 
         const selectedAnnos: AnnotationSelection[] = [];
         
         // Check Canvas Annotations
         canvasAnnotations.forEach(anno => {
-            if (rectIntersect(selectionRect, getAnnotationBounds(anno, contextRef.current!))) {
+            if (hits.has(annotationKey(null, anno.id))) {
                 selectedAnnos.push({ imageId: null, annotationId: anno.id });
             }
         });
@@ -975,27 +1076,7 @@ export const CanvasWrapper = forwardRef<HTMLCanvasElement, CanvasWrapperProps>((
         images.forEach(img => {
             if (img.visible === false || img.locked) return;
             img.annotations.forEach(anno => {
-                const localBounds = getAnnotationBounds(anno, contextRef.current!);
-                
-                const corners = [
-                    { x: localBounds.x, y: localBounds.y },
-                    { x: localBounds.x + localBounds.width, y: localBounds.y },
-                    { x: localBounds.x + localBounds.width, y: localBounds.y + localBounds.height },
-                    { x: localBounds.x, y: localBounds.y + localBounds.height }
-                ];
-                
-                let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
-                corners.forEach(c => {
-                    const globalPoint = transformLocalToGlobal(c, img);
-                    minX = Math.min(minX, globalPoint.x);
-                    minY = Math.min(minY, globalPoint.y);
-                    maxX = Math.max(maxX, globalPoint.x);
-                    maxY = Math.max(maxY, globalPoint.y);
-                });
-                
-                const globalAnnotationBounds = { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
-
-                if (rectIntersect(selectionRect, globalAnnotationBounds)) {
+                if (hits.has(annotationKey(img.id, anno.id))) {
                     selectedAnnos.push({ imageId: img.id, annotationId: anno.id });
                 }
             });
@@ -1013,7 +1094,7 @@ export const CanvasWrapper = forwardRef<HTMLCanvasElement, CanvasWrapperProps>((
     setDropTargetImageId(null);
     setInteraction(null);
     internalCanvasRef.current!.style.cursor = '';
-}, [interaction, drawingAnnotation, lastCanvasMousePosition, images, getLocalPoint, dropTargetImageId, selectedAnnotations, onReparentCanvasAnnotationsToImage, reparentImageAnnotationsToImage, onReparentImageAnnotationsToCanvas, onInteractionEnd, addAnnotation, setSelectedAnnotations, addCanvasAnnotation, activeTool, setActiveTool, marqueeRect, canvasAnnotations, onBoxSelect]);
+}, [interaction, drawingAnnotation, lastCanvasMousePosition, images, findImageAtPoint, dropTargetImageId, selectedAnnotations, onReparentCanvasAnnotationsToImage, reparentImageAnnotationsToImage, onReparentImageAnnotationsToCanvas, onInteractionEnd, addAnnotation, setSelectedAnnotations, addCanvasAnnotation, activeTool, setActiveTool, marqueeRect, canvasAnnotations, onBoxSelect]);
 
   useEffect(() => {
       window.addEventListener('mousemove', handleCanvasMouseMove);
@@ -0,0 +1,25 @@
+import React from 'react';
+
+interface EmbeddedProjectDialogProps {
+  fileName: string;
+  onOpenProject: () => void;
+  onAddAsImage: () => void;
+}
+
+export const EmbeddedProjectDialog: React.FC<EmbeddedProjectDialogProps> = ({ fileName, onOpenProject, onAddAsImage }) => {
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60">
+      <div className="w-96 p-6 bg-gray-800 rounded-lg shadow-xl border border-gray-700 text-gray-200">
+        <h2 className="text-lg font-bold text-white mb-2">Open editable project?</h2>
+        <p className="text-sm text-gray-400 mb-6">
+          "{fileName}" contains an editable project. Opening it replaces the current canvas;
+          otherwise it is added as a flat image.
+        </p>
+        <div className="flex gap-2">
+          <button onClick={onAddAsImage} className="flex-1 text-sm bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 px-4 rounded-md transition-all duration-200">Add as Image</button>
+          <button onClick={onOpenProject} className="flex-1 text-sm bg-blue-600 hover:bg-blue-500 text-white font-bold py-2 px-4 rounded-md transition-all duration-200">Open Project</button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,118 @@
+import React from 'react';
+import { ExportFormat, ExportOptions, ExportPreset } from '../types';
+import { DEFAULT_EXPORT_OPTIONS } from '../utils/canvasUtils';
+import { ColorInput } from './ColorInput';
+import { XIcon, SaveIcon, TrashIcon } from './icons';
+
+interface ExportOptionsDialogProps {
+  options: ExportOptions;
+  exportFormat: ExportFormat;
+  presets: ExportPreset[];
+  onChange: (options: ExportOptions) => void;
+  onApplyPreset: (id: string) => void;
+  onSavePreset: () => void;
+  onDeletePreset: (id: string) => void;
+  onClose: () => void;
+}
+
+const RangeRow: React.FC<{
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  display: string;
+  disabled?: boolean;
+  onChange: (value: number) => void;
+}> = ({ label, value, min, max, step, display, disabled, onChange }) => (
+  <div className={disabled ? 'opacity-50' : ''}>
+    <label className="block text-sm font-medium mb-1">{label}</label>
+    <div className="flex items-center space-x-2">
+      <input type="range" min={min} max={max} step={step} value={value} disabled={disabled} onChange={e => onChange(parseFloat(e.target.value))} className="w-full" />
+      <span className="text-xs font-mono w-16 text-center bg-gray-900 rounded-md py-1 border border-gray-700">{display}</span>
+    </div>
+  </div>
+);
+
+export const ExportOptionsDialog: React.FC<ExportOptionsDialogProps> = ({ options, exportFormat, presets, onChange, onApplyPreset, onSavePreset, onDeletePreset, onClose }) => {
+  const update = (changes: Partial<ExportOptions>) => onChange({ ...options, ...changes });
+  const supportsTransparency = exportFormat !== 'jpeg';
+  const supportsQuality = exportFormat === 'jpeg' || exportFormat === 'webp';
+  const supportsMetadata = exportFormat === 'jpeg' || exportFormat === 'png';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60" onMouseDown={onClose}>
+      <div className="w-96 p-6 bg-gray-800 rounded-lg shadow-xl border border-gray-700 text-gray-200 space-y-4" onMouseDown={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-bold text-white">Export Options</h2>
+          <button onClick={onClose} title="Close" className="p-1 rounded-md text-gray-400 hover:text-white hover:bg-gray-700"><XIcon /></button>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium mb-1">Presets</label>
+          {presets.length > 0 && (
+            <ul className="space-y-1 mb-2 max-h-40 overflow-y-auto">
+              {presets.map(preset => (
+                <li key={preset.id} className="flex items-center gap-1">
+                  <button onClick={() => onApplyPreset(preset.id)} title="Apply preset" className="flex-1 min-w-0 text-left text-sm px-2 py-1 rounded-md bg-gray-900 hover:bg-gray-700 truncate">
+                    {preset.name} <span className="text-xs text-gray-500">{preset.format.toUpperCase()} · {preset.options.scale}x</span>
+                  </button>
+                  <button onClick={() => onDeletePreset(preset.id)} title="Delete preset" className="p-1 rounded text-gray-400 hover:text-red-400 hover:bg-gray-700"><TrashIcon className="w-3.5 h-3.5" /></button>
+                </li>
+              ))}
+            </ul>
+          )}
+          <button onClick={onSavePreset} className="w-full flex items-center justify-center text-sm bg-gray-700 hover:bg-gray-600 text-white font-bold py-1.5 px-4 rounded-md transition-colors duration-200">
+            <SaveIcon /> <span className="ml-2">Save Current as Preset ({exportFormat.toUpperCase()})</span>
+          </button>
+        </div>
+
+        <RangeRow label="Scale" value={options.scale} min={0.5} max={4} step={0.5} display={`${options.scale}x`} onChange={scale => update({ scale })} />
+        <RangeRow label="Padding" value={options.padding} min={0} max={200} step={5} display={`${options.padding}px`} onChange={padding => update({ padding })} />
+
+        <div className="space-y-2">
+          <label className={`flex items-center gap-2 text-sm text-gray-300 ${supportsTransparency ? 'cursor-pointer' : 'opacity-50'}`}>
+            <input
+              type="checkbox"
+              checked={options.transparentBackground && supportsTransparency}
+              disabled={!supportsTransparency}
+              onChange={e => update({ transparentBackground: e.target.checked })}
+              className="rounded bg-gray-700 border-gray-600 text-blue-500 focus:ring-blue-500"
+            />
+            Transparent background{supportsTransparency ? '' : ' (not available for JPEG)'}
+          </label>
+          {!(options.transparentBackground && supportsTransparency) && (
+            <ColorInput label="Background Color" color={options.backgroundColor} onChange={backgroundColor => update({ backgroundColor })} />
+          )}
+        </div>
+
+        <label className={`flex items-center gap-2 text-sm text-gray-300 ${supportsMetadata ? 'cursor-pointer' : 'opacity-50'}`}>
+          <input
+            type="checkbox"
+            checked={!!options.keepMetadata && supportsMetadata}
+            disabled={!supportsMetadata}
+            onChange={e => update({ keepMetadata: e.target.checked })}
+            className="rounded bg-gray-700 border-gray-600 text-blue-500 focus:ring-blue-500"
+          />
+          Keep photo metadata (camera, date, GPS){supportsMetadata ? '' : ' (JPEG / PNG only)'}
+        </label>
+
+        <RangeRow
+          label="Quality (JPEG / WebP)"
+          value={Math.round(options.quality * 100)}
+          min={10}
+          max={100}
+          step={1}
+          display={`${Math.round(options.quality * 100)}%`}
+          disabled={!supportsQuality}
+          onChange={quality => update({ quality: quality / 100 })}
+        />
+
+        <div className="flex gap-2 pt-2">
+          <button onClick={() => onChange(DEFAULT_EXPORT_OPTIONS)} className="flex-1 text-sm bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 px-4 rounded-md transition-all duration-200">Reset</button>
+          <button onClick={onClose} className="flex-1 text-sm bg-blue-600 hover:bg-blue-500 text-white font-bold py-2 px-4 rounded-md transition-all duration-200">Done</button>
+        </div>
+      </div>
+    </div>
+  );
+};
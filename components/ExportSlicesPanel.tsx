@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import { ExportPreset, ExportSlice } from '../types';
+import { CropIcon, DownloadIcon, PencilIcon, TrashIcon } from './icons';
+
+interface ExportSlicesPanelProps {
+  slices: ExportSlice[];
+  presets: ExportPreset[];
+  canSaveCrop: boolean;
+  onSaveCropAsSlice: () => void;
+  onUpdate: (id: string, changes: Partial<ExportSlice>) => void;
+  onDelete: (id: string) => void;
+  onExport: (ids: string[]) => void;
+}
+
+export const ExportSlicesPanel: React.FC<ExportSlicesPanelProps> = ({
+  slices,
+  presets,
+  canSaveCrop,
+  onSaveCropAsSlice,
+  onUpdate,
+  onDelete,
+  onExport,
+}) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+
+  const startRename = (slice: ExportSlice) => {
+    setEditingId(slice.id);
+    setEditName(slice.name);
+  };
+
+  const commitRename = () => {
+    if (editingId && editName.trim()) onUpdate(editingId, { name: editName.trim() });
+    setEditingId(null);
+  };
+
+  return (
+    <div className="space-y-2">
+      <button onClick={onSaveCropAsSlice} disabled={!canSaveCrop} title="Draw a region with the crop tool first" className="w-full flex items-center justify-center bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 px-4 rounded-md transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed">
+        <CropIcon /> <span className="ml-2">Save Crop as Slice</span>
+      </button>
+
+      {slices.length === 0 ? (
+        <p className="text-xs text-gray-500 text-center py-2">No slices yet.</p>
+      ) : (
+        <ul className="space-y-2 max-h-80 overflow-y-auto">
+          {slices.map(slice => (
+            <li key={slice.id} className="p-2 rounded-md bg-gray-800 space-y-1">
+              <div className="flex items-center gap-1">
+                {editingId === slice.id ? (
+                  <input
+                    autoFocus
+                    value={editName}
+                    onChange={(e) => setEditName(e.target.value)}
+                    onBlur={commitRename}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitRename();
+                      if (e.key === 'Escape') setEditingId(null);
+                    }}
+                    className="flex-1 min-w-0 bg-gray-700 text-sm text-white rounded px-1 py-0.5 outline-none focus:ring-1 focus:ring-blue-500"
+                  />
+                ) : (
+                  <p className="flex-1 min-w-0 text-sm font-medium text-gray-200 truncate" title={slice.name}>{slice.name}</p>
+                )}
+                <button onClick={() => startRename(slice)} title="Rename" className="p-1 rounded text-gray-400 hover:text-white hover:bg-gray-700"><PencilIcon className="w-3.5 h-3.5" /></button>
+                <button onClick={() => onExport([slice.id])} title="Export" className="p-1 rounded text-gray-400 hover:text-white hover:bg-gray-700"><DownloadIcon className="w-3.5 h-3.5" /></button>
+                <button onClick={() => onDelete(slice.id)} title="Delete" className="p-1 rounded text-gray-400 hover:text-red-400 hover:bg-gray-700"><TrashIcon className="w-3.5 h-3.5" /></button>
+              </div>
+              <p className="text-xs text-gray-500">{Math.round(slice.rect.width)} × {Math.round(slice.rect.height)}</p>
+              <select
+                value={presets.find(preset => preset.id === slice.presetId)?.id ?? ''}
+                onChange={e => onUpdate(slice.id, { presetId: e.target.value || null })}
+                className="w-full bg-gray-800 rounded-md border border-gray-600 focus:ring-blue-500 focus:border-blue-500 text-xs p-1"
+              >
+                <option value="">Current export settings</option>
+                {presets.map(preset => <option key={preset.id} value={preset.id}>{preset.name}</option>)}
+              </select>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {slices.length > 1 && (
+        <button onClick={() => onExport(slices.map(s => s.id))} className="w-full flex items-center justify-center bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 px-4 rounded-md transition-colors duration-200">
+          <DownloadIcon /> <span className="ml-2">Export All Slices (ZIP)</span>
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,107 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { CanvasImage, FilterType, ImageFilter } from '../types';
+import { FILTER_DEFINITIONS, applyFilters, createFilter } from '../utils/filterUtils';
+import { processPixels } from '../utils/pixelPipelineUtils';
+import { sampleImagePixels } from '../utils/imageProcessingUtils';
+import { XIcon } from './icons';
+
+interface FilterDialogProps {
+  image: CanvasImage;
+  onApply: (filter: ImageFilter) => void;
+  onBake: (filter: ImageFilter) => void;
+  onClose: () => void;
+}
+
+const PREVIEW_SIZE = 256;
+
+// The visible part of the image with its current pixel edits, small enough to filter on every change.
+const renderPreviewBase = (image: CanvasImage): { pixels: ImageData; scale: number } | null => {
+  const sample = sampleImagePixels(image, PREVIEW_SIZE);
+  if (sample) processPixels(sample.pixels, image, sample.scale);
+  return sample;
+};
+
+const PreviewCanvas: React.FC<{ pixels: ImageData | null; label: string }> = ({ pixels, label }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !pixels) return;
+    canvas.width = pixels.width;
+    canvas.height = pixels.height;
+    canvas.getContext('2d')?.putImageData(pixels, 0, 0);
+  }, [pixels]);
+
+  return (
+    <div className="flex-1 min-w-0 space-y-1">
+      <p className="text-xs text-gray-400 text-center">{label}</p>
+      <div className="flex items-center justify-center h-64 bg-gray-900 rounded-md border border-gray-700">
+        <canvas ref={canvasRef} className="max-w-full max-h-full" />
+      </div>
+    </div>
+  );
+};
+
+export const FilterDialog: React.FC<FilterDialogProps> = ({ image, onApply, onBake, onClose }) => {
+  const [type, setType] = useState<FilterType>('blur');
+  const [amount, setAmount] = useState(FILTER_DEFINITIONS.blur.defaultAmount);
+  const definition = FILTER_DEFINITIONS[type];
+
+  const base = useMemo(() => renderPreviewBase(image), [image]);
+  const after = useMemo(() => {
+    if (!base) return null;
+    const pixels = new ImageData(new Uint8ClampedArray(base.pixels.data), base.pixels.width, base.pixels.height);
+    applyFilters(pixels, [createFilter(type, amount)], base.scale);
+    return pixels;
+  }, [base, type, amount]);
+
+  const changeType = (newType: FilterType) => {
+    setType(newType);
+    setAmount(FILTER_DEFINITIONS[newType].defaultAmount);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60" onMouseDown={onClose}>
+      <div className="w-[36rem] p-6 bg-gray-800 rounded-lg shadow-xl border border-gray-700 text-gray-200 space-y-4" onMouseDown={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-bold text-white">Add Filter</h2>
+          <button onClick={onClose} title="Close" className="p-1 rounded-md text-gray-400 hover:text-white hover:bg-gray-700"><XIcon /></button>
+        </div>
+
+        <div className="flex gap-3">
+          <PreviewCanvas pixels={base?.pixels ?? null} label="Before" />
+          <PreviewCanvas pixels={after} label="After" />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium mb-1">Filter</label>
+          <select
+            value={type}
+            onChange={e => changeType(e.target.value as FilterType)}
+            className="w-full bg-gray-800 rounded-md border border-gray-600 focus:ring-blue-500 focus:border-blue-500 text-xs p-1"
+          >
+            {(Object.keys(FILTER_DEFINITIONS) as FilterType[]).map(t => (
+              <option key={t} value={t}>{FILTER_DEFINITIONS[t].label}</option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium mb-1">{definition.amountLabel}</label>
+          <div className="flex items-center space-x-2">
+            <input type="range" min={definition.min} max={definition.max} step={definition.step} value={amount} onChange={e => setAmount(parseFloat(e.target.value))} className="w-full" />
+            <span className="text-xs font-mono w-16 text-center bg-gray-900 rounded-md py-1 border border-gray-700">{amount}{definition.unit ?? ''}</span>
+          </div>
+        </div>
+
+        <p className="text-xs text-gray-500">Apply keeps the filter editable in the Filters list. Bake writes it into the image's pixels; Uncrop Image restores the original.</p>
+
+        <div className="flex gap-2">
+          <button onClick={onClose} className="flex-1 flex items-center justify-center bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 px-4 rounded-md transition-colors duration-200">Cancel</button>
+          <button onClick={() => onBake(createFilter(type, amount))} className="flex-1 flex items-center justify-center bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 px-4 rounded-md transition-colors duration-200">Bake</button>
+          <button onClick={() => onApply(createFilter(type, amount))} className="flex-1 flex items-center justify-center bg-blue-600 hover:bg-blue-500 text-white font-bold py-2 px-4 rounded-md transition-colors duration-200">Apply</button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import { CanvasImage, ImageFilter } from '../types';
+import { FILTER_DEFINITIONS } from '../utils/filterUtils';
+import { FilterDialog } from './FilterDialog';
+import { ChevronDownIcon, ChevronUpIcon, TrashIcon } from './icons';
+
+interface FiltersPanelProps {
+  image: CanvasImage;
+  onChange: (filters: ImageFilter[]) => void;
+  onBake: (filter: ImageFilter) => void;
+}
+
+export const FiltersPanel: React.FC<FiltersPanelProps> = ({ image, onChange, onBake }) => {
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const filters = image.filters ?? [];
+
+  const update = (id: string, changes: Partial<ImageFilter>) =>
+    onChange(filters.map(filter => filter.id === id ? { ...filter, ...changes } : filter));
+
+  const move = (index: number, direction: -1 | 1) => {
+    const next = [...filters];
+    [next[index], next[index + direction]] = [next[index + direction], next[index]];
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-2">
+      <button onClick={() => setIsDialogOpen(true)} className="w-full flex items-center justify-center bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 px-4 rounded-md transition-colors duration-200">
+        Add Filter…
+      </button>
+
+      {filters.length === 0 ? (
+        <p className="text-xs text-gray-500 text-center py-2">No filters.</p>
+      ) : (
+        <ul className="space-y-2">
+          {filters.map((filter, index) => {
+            const definition = FILTER_DEFINITIONS[filter.type];
+            return (
+              <li key={filter.id} className={`p-2 rounded-md bg-gray-800 space-y-1 ${filter.enabled ? '' : 'opacity-60'}`}>
+                <div className="flex items-center gap-1">
+                  <input
+                    type="checkbox"
+                    checked={filter.enabled}
+                    onChange={e => update(filter.id, { enabled: e.target.checked })}
+                    title={filter.enabled ? 'Disable' : 'Enable'}
+                    className="rounded bg-gray-700 border-gray-600 text-blue-500 focus:ring-blue-500"
+                  />
+                  <p className="flex-1 min-w-0 text-sm font-medium text-gray-200 truncate">{definition.label}</p>
+                  <button onClick={() => move(index, -1)} disabled={index === 0} title="Move up" className="p-1 rounded text-gray-400 hover:text-white hover:bg-gray-700 disabled:opacity-30 disabled:hover:bg-transparent"><ChevronUpIcon className="w-3.5 h-3.5" /></button>
+                  <button onClick={() => move(index, 1)} disabled={index === filters.length - 1} title="Move down" className="p-1 rounded text-gray-400 hover:text-white hover:bg-gray-700 disabled:opacity-30 disabled:hover:bg-transparent"><ChevronDownIcon className="w-3.5 h-3.5" /></button>
+                  <button onClick={() => onChange(filters.filter(f => f.id !== filter.id))} title="Remove" className="p-1 rounded text-gray-400 hover:text-red-400 hover:bg-gray-700"><TrashIcon className="w-3.5 h-3.5" /></button>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <input
+                    type="range"
+                    min={definition.min}
+                    max={definition.max}
+                    step={definition.step}
+                    value={filter.amount}
+                    onChange={e => update(filter.id, { amount: parseFloat(e.target.value) })}
+                    title={definition.amountLabel}
+                    className="w-full"
+                  />
+                  <span className="text-xs font-mono w-16 text-center bg-gray-900 rounded-md py-1 border border-gray-700">
+                    {filter.amount}{definition.unit ?? ''}
+                  </span>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {isDialogOpen && (
+        <FilterDialog
+          image={image}
+          onApply={filter => { onChange([...filters, filter]); setIsDialogOpen(false); }}
+          onBake={filter => { onBake(filter); setIsDialogOpen(false); }}
+          onClose={() => setIsDialogOpen(false)}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,49 @@
+import React from 'react';
+import { ImageMetadata } from '../types';
+
+interface ImageMetadataPanelProps {
+  metadata: ImageMetadata;
+}
+
+const Row: React.FC<{ label: string; value: React.ReactNode }> = ({ label, value }) => (
+  <div className="flex justify-between gap-2">
+    <span className="text-gray-400 flex-shrink-0">{label}</span>
+    <span className="text-gray-200 text-right truncate" title={typeof value === 'string' ? value : undefined}>{value}</span>
+  </div>
+);
+
+const formatCoordinate = (value: number, positive: string, negative: string) =>
+  `${Math.abs(value).toFixed(5)}° ${value < 0 ? negative : positive}`;
+
+export const ImageMetadataPanel: React.FC<ImageMetadataPanelProps> = ({ metadata }) => {
+  // Camera makers often repeat the make at the start of the model name.
+  const camera = [metadata.make, metadata.model]
+    .filter(Boolean)
+    .join(' ')
+    .replace(/^(\S+) \1 /i, '$1 ');
+  const hasLocation = metadata.latitude !== undefined && metadata.longitude !== undefined;
+
+  return (
+    <div className="text-xs bg-gray-800 p-2 rounded-md space-y-1">
+      {camera && <Row label="Camera" value={camera} />}
+      {metadata.lensModel && <Row label="Lens" value={metadata.lensModel} />}
+      {metadata.dateTaken && <Row label="Taken" value={new Date(metadata.dateTaken).toLocaleString()} />}
+      {hasLocation && (
+        <Row
+          label="Location"
+          value={
+            <a
+              href={`https://www.openstreetmap.org/?mlat=${metadata.latitude}&mlon=${metadata.longitude}#map=15/${metadata.latitude}/${metadata.longitude}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-blue-400 hover:underline"
+            >
+              {formatCoordinate(metadata.latitude!, 'N', 'S')}, {formatCoordinate(metadata.longitude!, 'E', 'W')}
+            </a>
+          }
+        />
+      )}
+      {metadata.altitude !== undefined && <Row label="Altitude" value={`${Math.round(metadata.altitude)} m`} />}
+    </div>
+  );
+};
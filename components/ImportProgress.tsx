@@ -0,0 +1,27 @@
+import React from 'react';
+
+interface ImportProgressProps {
+  done: number;
+  total: number;
+  currentFile: string;
+  onCancel: () => void;
+}
+
+export const ImportProgress: React.FC<ImportProgressProps> = ({ done, total, currentFile, onCancel }) => {
+  const percent = total > 0 ? Math.round((done / total) * 100) : 0;
+  return (
+    <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 w-80 p-4 bg-gray-800 rounded-lg shadow-xl border border-gray-700 text-gray-200 space-y-2">
+      <div className="flex justify-between text-sm">
+        <span className="font-bold text-white">Importing images…</span>
+        <span className="font-mono text-gray-400">{done} / {total}</span>
+      </div>
+      <div className="h-2 bg-gray-900 rounded-full overflow-hidden">
+        <div className="h-full bg-blue-500 transition-all duration-200" style={{ width: `${percent}%` }} />
+      </div>
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-xs text-gray-400 truncate" title={currentFile}>{currentFile}</p>
+        <button onClick={onCancel} className="text-xs font-bold text-gray-300 hover:text-white bg-gray-700 hover:bg-gray-600 py-1 px-3 rounded-md transition-colors duration-200">Cancel</button>
+      </div>
+    </div>
+  );
+};
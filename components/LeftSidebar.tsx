@@ -1,7 +1,16 @@
 import React, { useRef, useState, useEffect, useMemo } from 'react';
-import { CanvasImage, AspectRatio, AnnotationTool, Rect, Annotation, TextAnnotation, Group } from '../types';
-import { UploadIcon, ZoomInIcon, ZoomOutIcon, RotateCwIcon, CropIcon, PenToolIcon, TypeIcon, SquareIcon, CircleIcon, MousePointerIcon, TrashIcon, UndoIcon, RedoIcon, ArrowIcon, XIcon, SendToBackIcon, ChevronDownIcon, ChevronUpIcon, BringToFrontIcon, AlignLeftIcon, AlignHorizontalCenterIcon, AlignRightIcon, AlignTopIcon, AlignVerticalCenterIcon, AlignBottomIcon, CopyIcon, DownloadIcon, LineIcon, ArrangeHorizontalIcon, ArrangeVerticalIcon, EyedropperIcon, MaximizeIcon, SaveIcon, FolderOpenIcon, LayersIcon, DistributeHorizontalIcon, DistributeVerticalIcon, MatchWidthIcon, MatchHeightIcon, StackHorizontalIcon, StackVerticalIcon, SlidersIcon } from './icons';
+import { CanvasImage, ExportFormat, ExportPreset, ExportSlice, AspectRatio, AnnotationTool, Rect, Annotation, TextAnnotation, Group, ImageFilter } from '../types';
+import { UploadIcon, ZoomInIcon, ZoomOutIcon, RotateCwIcon, CropIcon, PenToolIcon, TypeIcon, SquareIcon, CircleIcon, MousePointerIcon, TrashIcon, UndoIcon, RedoIcon, ArrowIcon, XIcon, SendToBackIcon, ChevronDownIcon, ChevronUpIcon, BringToFrontIcon, AlignLeftIcon, AlignHorizontalCenterIcon, AlignRightIcon, AlignTopIcon, AlignVerticalCenterIcon, AlignBottomIcon, CopyIcon, DownloadIcon, LineIcon, ArrangeHorizontalIcon, ArrangeVerticalIcon, EyedropperIcon, MaximizeIcon, SaveIcon, FolderOpenIcon, LayersIcon, DistributeHorizontalIcon, DistributeVerticalIcon, MatchWidthIcon, MatchHeightIcon, StackHorizontalIcon, StackVerticalIcon, SlidersIcon, FlipHorizontalIcon, FlipVerticalIcon } from './icons';
 import { ColorPicker } from './ColorInput';
+import { ProjectLibrary } from './ProjectLibrary';
+import { PdfExportPanel } from './PdfExportPanel';
+import { ExportSlicesPanel } from './ExportSlicesPanel';
+import { ImageMetadataPanel } from './ImageMetadataPanel';
+import { AdjustmentsPanel } from './AdjustmentsPanel';
+import { FiltersPanel } from './FiltersPanel';
+import { ToneCurvePanel } from './ToneCurvePanel';
+import { PdfOptions, PdfExportMode } from '../utils/pdfUtils';
+import { LibraryProjectSummary } from '../utils/storageUtils';
 
 interface LeftSidebarProps {
   onFileChange: (files: FileList | null) => void;
@@ -24,15 +33,30 @@ interface LeftSidebarProps {
   onArrangeImages: (direction: 'horizontal' | 'vertical', order: 'normal' | 'reverse') => void;
   onStackImages: (direction: 'horizontal' | 'vertical', order: 'normal' | 'reverse') => void;
   onMatchImageSizes: (dimension: 'width' | 'height') => void;
-  exportFormat: 'png' | 'jpeg';
-  setExportFormat: (format: 'png' | 'jpeg') => void;
+  exportFormat: ExportFormat;
+  setExportFormat: (format: ExportFormat) => void;
+  exportAsSeparateFiles: boolean;
+  setExportAsSeparateFiles: (value: boolean) => void;
   onFitCropToImage: () => void;
   isLocked?: boolean;
   onClearAllCanvas: () => void;
   onDownloadAllCanvas: () => void;
+  onExportPdf: (mode: PdfExportMode, options: PdfOptions) => Promise<void>;
+  onOpenExportOptions: () => void;
+  exportSlices: ExportSlice[];
+  exportPresets: ExportPreset[];
+  onSaveCropAsSlice: () => void;
+  onUpdateExportSlice: (id: string, changes: Partial<ExportSlice>) => void;
+  onDeleteExportSlice: (id: string) => void;
+  onExportSlices: (ids: string[]) => void;
   onUncrop: (imageIds: string[]) => void;
+  onBakeFilter: (filter: ImageFilter) => void;
+  onAutoEnhance: () => void;
+  onRotateImages90: (direction: 1 | -1) => void;
+  onFlipImages: (axis: 'x' | 'y') => void;
   onSaveProject: () => void;
   onLoadProject: (file: File) => void;
+  onSavePackagedProject: () => void;
   onCreateGroup: () => void;
   images: CanvasImage[];
   onDownloadSelectedImages: () => void;
@@ -41,6 +65,13 @@ interface LeftSidebarProps {
   onUpdateSelectedAnnotations: (changes: Partial<Annotation>) => void;
   deleteSelectedAnnotations: () => void;
   onCrop: () => void;
+  libraryProjects: LibraryProjectSummary[];
+  currentLibraryProjectId: string | null;
+  onSaveToLibrary: () => void;
+  onOpenLibraryProject: (id: string) => void;
+  onRenameLibraryProject: (id: string, name: string) => void;
+  onDuplicateLibraryProject: (id: string) => void;
+  onDeleteLibraryProject: (id: string) => void;
 }
 
 const TabButton: React.FC<{
@@ -112,14 +143,17 @@ export const LeftSidebar: React.FC<LeftSidebarProps> = (props) => {
     onFileChange, selectedImage, selectedImageIds, onUpdateSelectedImages, cropArea, aspectRatio, setAspectRatio, activeTool, setActiveTool,
     toolOptions, setToolOptions, onCropToView,
     onUndo, onRedo, canUndo, canRedo,
-    onAlignImages, onArrangeImages, onStackImages, onMatchImageSizes, exportFormat, setExportFormat, onFitCropToImage,
-    isLocked, onClearAllCanvas, onDownloadAllCanvas, onUncrop,
-    onSaveProject, onLoadProject, onCreateGroup, images, onDownloadSelectedImages, isDirty,
-    selectedAnnotationObjects, onUpdateSelectedAnnotations, deleteSelectedAnnotations, onCrop
+    onAlignImages, onArrangeImages, onStackImages, onMatchImageSizes, exportFormat, setExportFormat, exportAsSeparateFiles, setExportAsSeparateFiles, onFitCropToImage,
+    isLocked, onClearAllCanvas, onDownloadAllCanvas, onExportPdf, onOpenExportOptions, onUncrop, onBakeFilter, onAutoEnhance, onRotateImages90, onFlipImages,
+    exportSlices, exportPresets, onSaveCropAsSlice, onUpdateExportSlice, onDeleteExportSlice, onExportSlices,
+    onSaveProject, onLoadProject, onSavePackagedProject, onCreateGroup, images, onDownloadSelectedImages, isDirty,
+    selectedAnnotationObjects, onUpdateSelectedAnnotations, deleteSelectedAnnotations, onCrop,
+    libraryProjects, currentLibraryProjectId, onSaveToLibrary, onOpenLibraryProject, onRenameLibraryProject, onDuplicateLibraryProject, onDeleteLibraryProject
   } = props;
 
   const [activeTab, setActiveTab] = useState<'tools' | 'project'>('tools');
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
   const loadProjectInputRef = useRef<HTMLInputElement>(null);
   const [isConfirmingClear, setIsConfirmingClear] = useState(false);
   const confirmTimeoutRef = useRef<number | null>(null);
@@ -326,7 +360,7 @@ export const LeftSidebar: React.FC<LeftSidebarProps> = (props) => {
   };
 
   const isDisabled = isLocked;
-  const showUncrop = selectedImageIds.length > 0 && images.some(img => selectedImageIds.includes(img.id) && img.uncroppedFromId);
+  const showUncrop = selectedImageIds.length > 0 && images.some(img => selectedImageIds.includes(img.id) && (img.uncroppedFromId || img.bakedFromId));
 
   const getActiveColorValue = (): string => {
       if (activeColorTarget === 'outline' && isEditingImage && !isEditingAnnotation) {
@@ -472,6 +506,7 @@ export const LeftSidebar: React.FC<LeftSidebarProps> = (props) => {
                             <button onClick={onCropToView} className="w-full text-sm bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 px-4 rounded-md transition-all duration-200">Fit to View</button>
                         </div>
                         <button onClick={onCrop} disabled={!cropArea} className="w-full text-sm bg-green-600 hover:bg-green-700 text-white font-bold py-2 px-4 rounded-md transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed">Apply Crop (Enter)</button>
+                        <button onClick={onSaveCropAsSlice} disabled={!cropArea} title="Keep this region as a named export slice instead of cropping" className="w-full text-sm bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 px-4 rounded-md transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed">Save as Export Slice</button>
                     </div>
                 )}
 
@@ -646,6 +681,15 @@ export const LeftSidebar: React.FC<LeftSidebarProps> = (props) => {
                             <button onClick={() => handleButtonClick('rotation', 15)} disabled={!selectedImage} className="p-2 bg-gray-700 rounded-md hover:bg-gray-600 disabled:opacity-50"><RotateCwIcon /></button>
                           </div>
                         </div>
+                        <div className="mt-3">
+                          <label className="block text-sm font-medium mb-1">Rotate & Flip</label>
+                          <div className="grid grid-cols-4 gap-2">
+                            <button onClick={() => onRotateImages90(-1)} disabled={!selectedImage} title="Rotate 90° Left" className="p-2 bg-gray-700 rounded-md hover:bg-gray-600 disabled:opacity-50 flex justify-center items-center"><RotateCwIcon className="-scale-x-100" /></button>
+                            <button onClick={() => onRotateImages90(1)} disabled={!selectedImage} title="Rotate 90° Right" className="p-2 bg-gray-700 rounded-md hover:bg-gray-600 disabled:opacity-50 flex justify-center items-center"><RotateCwIcon /></button>
+                            <button onClick={() => onFlipImages('x')} disabled={!selectedImage} title="Flip Horizontal" className={`p-2 rounded-md flex justify-center items-center ${selectedImage?.flipX && selectedImageIds.length === 1 ? 'bg-blue-600 hover:bg-blue-500' : 'bg-gray-700 hover:bg-gray-600'} disabled:opacity-50`}><FlipHorizontalIcon /></button>
+                            <button onClick={() => onFlipImages('y')} disabled={!selectedImage} title="Flip Vertical" className={`p-2 rounded-md flex justify-center items-center ${selectedImage?.flipY && selectedImageIds.length === 1 ? 'bg-blue-600 hover:bg-blue-500' : 'bg-gray-700 hover:bg-gray-600'} disabled:opacity-50`}><FlipVerticalIcon /></button>
+                          </div>
+                        </div>
 
                         {selectedImageIds.length > 1 && (
                           <div className="mt-4 pt-3 border-t border-gray-700 space-y-3">
@@ -689,34 +733,99 @@ export const LeftSidebar: React.FC<LeftSidebarProps> = (props) => {
                     </div>
                  </Accordion>
                 )}
+
+                {selectedImageIds.length > 0 && (
+                    <Accordion title="Adjustments">
+                        <div className="space-y-1">
+                            <button onClick={onAutoEnhance} title="Set white balance, levels and contrast from each image's histogram" className="w-full flex items-center justify-center bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-2 px-4 rounded-md transition-colors duration-200">
+                                <SlidersIcon /> <span className="ml-2">{selectedImageIds.length > 1 ? `Auto Enhance (${selectedImageIds.length})` : 'Auto Enhance'}</span>
+                            </button>
+                            <p className="text-xs text-gray-500">Sets temperature, brightness and contrast in the adjustments, where they stay editable. Running it again replaces them.</p>
+                        </div>
+                        {selectedImage && selectedImageIds.length === 1 && (
+                            <AdjustmentsPanel adjustments={selectedImage.adjustments ?? []} onChange={adjustments => onUpdateSelectedImages({ adjustments })} />
+                        )}
+                    </Accordion>
+                )}
+
+                {selectedImage && selectedImageIds.length === 1 && (
+                    <Accordion title="Levels & Curves">
+                        <ToneCurvePanel image={selectedImage} onChange={toneCurve => onUpdateSelectedImages({ toneCurve })} />
+                    </Accordion>
+                )}
+
+                {selectedImage && selectedImageIds.length === 1 && (
+                    <Accordion title="Filters">
+                        <FiltersPanel image={selectedImage} onChange={filters => onUpdateSelectedImages({ filters })} onBake={onBakeFilter} />
+                    </Accordion>
+                )}
+
+                {selectedImage?.metadata && selectedImageIds.length === 1 && (
+                    <Accordion title="Photo Info">
+                        <ImageMetadataPanel metadata={selectedImage.metadata} />
+                    </Accordion>
+                )}
             </div>
         )}
 
         {activeTab === 'project' && (
              <div className="p-4 space-y-4">
                 <input type="file" multiple accept="image/*" ref={fileInputRef} className="hidden" onChange={(e) => onFileChange(e.target.files)} disabled={isDisabled}/>
-                <input type="file" accept=".cpro,.json" ref={loadProjectInputRef} className="hidden" onChange={handleLoadProjectFileChange} disabled={isDisabled}/>
+                {/* webkitdirectory isn't in React's input typings yet */}
+                <input type="file" multiple {...{ webkitdirectory: '' }} ref={folderInputRef} className="hidden" onChange={(e) => { onFileChange(e.target.files); e.target.value = ''; }} disabled={isDisabled}/>
+                <input type="file" accept=".cpro,.cproz,.json,.zip" ref={loadProjectInputRef} className="hidden" onChange={handleLoadProjectFileChange} disabled={isDisabled}/>
                 
                 <button onClick={handleUploadClick} disabled={isDisabled} className="w-full flex items-center justify-center bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded-md transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed">
                     <UploadIcon /> <span className="ml-2">Upload Images</span>
                 </button>
+
+                <button onClick={() => folderInputRef.current?.click()} disabled={isDisabled} title="Each subfolder becomes a group" className="w-full flex items-center justify-center bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 px-4 rounded-md transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed">
+                    <FolderOpenIcon /> <span className="ml-2">Import Folder</span>
+                </button>
                 
                 <button onClick={handleLoadProjectClick} disabled={isDisabled} className="w-full flex items-center justify-center bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 px-4 rounded-md transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed">
                     <FolderOpenIcon /> <span className="ml-2">Load Project</span>
                 </button>
                 
+                <div className="pt-4 border-t border-gray-700">
+                    <Accordion title="Projects" defaultOpen>
+                        <ProjectLibrary
+                            projects={libraryProjects}
+                            currentProjectId={currentLibraryProjectId}
+                            isDisabled={isDisabled}
+                            onSaveCurrent={onSaveToLibrary}
+                            onOpen={onOpenLibraryProject}
+                            onRename={onRenameLibraryProject}
+                            onDuplicate={onDuplicateLibraryProject}
+                            onDelete={onDeleteLibraryProject}
+                        />
+                    </Accordion>
+                </div>
+
                 <div className="pt-4 border-t border-gray-700">
                     <label className="block text-sm font-medium mb-2">Export Format</label>
                     <div className="flex rounded-md bg-gray-800 p-1">
                         <button onClick={() => setExportFormat('png')} className={`flex-1 text-sm py-1 rounded-sm transition-colors ${exportFormat === 'png' ? 'bg-gray-600 text-white shadow-sm' : 'text-gray-400 hover:text-gray-200'}`}>PNG</button>
                         <button onClick={() => setExportFormat('jpeg')} className={`flex-1 text-sm py-1 rounded-sm transition-colors ${exportFormat === 'jpeg' ? 'bg-gray-600 text-white shadow-sm' : 'text-gray-400 hover:text-gray-200'}`}>JPEG</button>
+                        <button onClick={() => setExportFormat('webp')} className={`flex-1 text-sm py-1 rounded-sm transition-colors ${exportFormat === 'webp' ? 'bg-gray-600 text-white shadow-sm' : 'text-gray-400 hover:text-gray-200'}`}>WebP</button>
+                        <button onClick={() => setExportFormat('svg')} className={`flex-1 text-sm py-1 rounded-sm transition-colors ${exportFormat === 'svg' ? 'bg-gray-600 text-white shadow-sm' : 'text-gray-400 hover:text-gray-200'}`}>SVG</button>
                     </div>
+                    <button onClick={onOpenExportOptions} className="w-full flex items-center justify-center mt-3 text-sm bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 px-4 rounded-md transition-colors duration-200">
+                        <SlidersIcon /> <span className="ml-2">Export Options…</span>
+                    </button>
+                    <label className="flex items-center gap-2 mt-3 text-sm text-gray-300 cursor-pointer">
+                        <input type="checkbox" checked={exportAsSeparateFiles} onChange={(e) => setExportAsSeparateFiles(e.target.checked)} className="rounded bg-gray-700 border-gray-600 text-blue-500 focus:ring-blue-500" />
+                        Export as separate files (ZIP)
+                    </label>
                 </div>
                 
                 <div className="space-y-2">
                     <button onClick={onSaveProject} className="w-full flex items-center justify-center bg-green-600 hover:bg-green-700 text-white font-bold py-2 px-4 rounded-md transition-colors duration-200">
                         <SaveIcon /> <span className="ml-2">Save Project</span>
                     </button>
+                    <button onClick={onSavePackagedProject} title="Smaller file: images are stored as binary entries in a ZIP archive" className="w-full flex items-center justify-center bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 px-4 rounded-md transition-colors duration-200">
+                        <SaveIcon /> <span className="ml-2">Save Packaged (.cproz)</span>
+                    </button>
                     <button onClick={onDownloadSelectedImages} disabled={selectedImageIds.length === 0 && selectedAnnotationObjects.length === 0} className="w-full flex items-center justify-center bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 px-4 rounded-md transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed">
                         <DownloadIcon /> <span className="ml-2">{(selectedImageIds.length > 0 || selectedAnnotationObjects.length > 0) ? 'Download Selection' : 'Download Selection'}</span>
                     </button>
@@ -725,6 +834,22 @@ export const LeftSidebar: React.FC<LeftSidebarProps> = (props) => {
                     </button>
                 </div>
 
+                <Accordion title="PDF Export">
+                    <PdfExportPanel hasSelection={selectedImageIds.length > 0} onExport={onExportPdf} />
+                </Accordion>
+
+                <Accordion title="Export Slices">
+                    <ExportSlicesPanel
+                        slices={exportSlices}
+                        presets={exportPresets}
+                        canSaveCrop={!!cropArea}
+                        onSaveCropAsSlice={onSaveCropAsSlice}
+                        onUpdate={onUpdateExportSlice}
+                        onDelete={onDeleteExportSlice}
+                        onExport={onExportSlices}
+                    />
+                </Accordion>
+
                  <div className="pt-4 border-t border-gray-700 mt-auto">
                     <button onClick={handleClearClick} disabled={isDisabled} className={`w-full flex items-center justify-center text-white font-bold py-2 px-4 rounded-md transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed ${isConfirmingClear ? 'bg-red-600 hover:bg-red-700' : 'bg-red-900/50 hover:bg-red-800 text-red-200'}`}>
                         <TrashIcon /> <span className="ml-2">{isConfirmingClear ? 'Confirm Clear?' : 'Clear Canvas'}</span>
@@ -1,6 +1,6 @@
 import React, { useRef, useEffect, useState } from 'react';
 import { CanvasImage, Point, Rect, Group } from '../types';
-import { getImagesBounds } from '../utils/canvasUtils';
+import { getImagesBounds, watchDevicePixelRatio } from '../utils/canvasUtils';
 
 interface MiniMapProps {
     images: CanvasImage[];
@@ -13,6 +13,9 @@ interface MiniMapProps {
 export const MiniMap: React.FC<MiniMapProps> = ({ images, viewTransform, setViewTransform, viewportSize }) => {
     const canvasRef = useRef<HTMLCanvasElement>(null);
     const [isDragging, setIsDragging] = useState(false);
+    const [pixelRatio, setPixelRatio] = useState(() => window.devicePixelRatio || 1);
+
+    useEffect(() => watchDevicePixelRatio(setPixelRatio), []);
 
     // Determine world bounds based on all images
     const getWorldBounds = (): Rect => {
@@ -40,8 +43,9 @@ export const MiniMap: React.FC<MiniMapProps> = ({ images, viewTransform, setView
         if (!ctx) return;
 
         const { width, height } = canvas.getBoundingClientRect();
-        canvas.width = width;
-        canvas.height = height;
+        canvas.width = Math.round(width * pixelRatio);
+        canvas.height = Math.round(height * pixelRatio);
+        ctx.scale(pixelRatio, pixelRatio);
 
         // Calculate scale to fit world bounds into minimap
         const scaleX = width / worldBounds.width;
@@ -84,7 +88,7 @@ export const MiniMap: React.FC<MiniMapProps> = ({ images, viewTransform, setView
 
     useEffect(() => {
         draw();
-    }, [images, viewTransform, worldBounds.x, worldBounds.y, worldBounds.width, worldBounds.height, viewportSize]);
+    }, [images, viewTransform, worldBounds.x, worldBounds.y, worldBounds.width, worldBounds.height, viewportSize, pixelRatio]);
 
     const handleInput = (clientX: number, clientY: number) => {
         const canvas = canvasRef.current;
@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { PdfOptions, PdfExportMode, DEFAULT_PDF_OPTIONS } from '../utils/pdfUtils';
+import { DownloadIcon } from './icons';
+
+interface PdfExportPanelProps {
+  hasSelection: boolean;
+  onExport: (mode: PdfExportMode, options: PdfOptions) => Promise<void>;
+}
+
+const selectClassName = 'w-full bg-gray-800 rounded-md border border-gray-600 focus:ring-blue-500 focus:border-blue-500 text-xs p-1';
+
+export const PdfExportPanel: React.FC<PdfExportPanelProps> = ({ hasSelection, onExport }) => {
+  const [mode, setMode] = useState<PdfExportMode>('images');
+  const [options, setOptions] = useState<PdfOptions>(DEFAULT_PDF_OPTIONS);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const update = (changes: Partial<PdfOptions>) => setOptions(prev => ({ ...prev, ...changes }));
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      await onExport(mode, options);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label className="block text-sm font-medium mb-1">Pages</label>
+        <select value={mode} onChange={e => setMode(e.target.value as PdfExportMode)} className={selectClassName}>
+          <option value="images">One per image{hasSelection ? ' (selected)' : ''}</option>
+          <option value="groups">One per top-level group</option>
+          <option value="canvas">Whole canvas</option>
+        </select>
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className="block text-sm font-medium mb-1">Page Size</label>
+          <select value={options.pageSize} onChange={e => update({ pageSize: e.target.value as PdfOptions['pageSize'] })} className={selectClassName}>
+            <option value="a4">A4</option>
+            <option value="letter">Letter</option>
+            <option value="fit">Fit to content</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium mb-1">Orientation</label>
+          <select value={options.orientation} onChange={e => update({ orientation: e.target.value as PdfOptions['orientation'] })} disabled={options.pageSize === 'fit'} className={`${selectClassName} disabled:opacity-50`}>
+            <option value="auto">Auto</option>
+            <option value="portrait">Portrait</option>
+            <option value="landscape">Landscape</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium mb-1">Margin (pt)</label>
+          <input type="number" min="0" step="6" value={options.margin} onChange={e => update({ margin: Math.max(0, Number(e.target.value) || 0) })} className="w-full bg-gray-800 text-center rounded-md border border-gray-600 focus:ring-blue-500 focus:border-blue-500 text-xs p-1" />
+        </div>
+        <div>
+          <label className="block text-sm font-medium mb-1">Images</label>
+          <select value={options.imageEncoding} onChange={e => update({ imageEncoding: e.target.value as PdfOptions['imageEncoding'] })} className={selectClassName}>
+            <option value="jpeg">JPEG (smaller)</option>
+            <option value="flate">Lossless</option>
+          </select>
+        </div>
+      </div>
+      <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+        <input type="checkbox" checked={options.includeCaptions} onChange={e => update({ includeCaptions: e.target.checked })} className="rounded bg-gray-700 border-gray-600 text-blue-500 focus:ring-blue-500" />
+        Print names as captions
+      </label>
+      <button onClick={handleExport} disabled={isExporting} className="w-full flex items-center justify-center bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 px-4 rounded-md transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed">
+        <DownloadIcon /> <span className="ml-2">{isExporting ? 'Exporting…' : 'Export PDF'}</span>
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { LibraryProjectSummary } from '../utils/storageUtils';
+import { SaveIcon, FolderOpenIcon, PencilIcon, DuplicateIcon, TrashIcon } from './icons';
+
+interface ProjectLibraryProps {
+  projects: LibraryProjectSummary[];
+  currentProjectId: string | null;
+  isDisabled?: boolean;
+  onSaveCurrent: () => void;
+  onOpen: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+export const ProjectLibrary: React.FC<ProjectLibraryProps> = ({
+  projects,
+  currentProjectId,
+  isDisabled,
+  onSaveCurrent,
+  onOpen,
+  onRename,
+  onDuplicate,
+  onDelete,
+}) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+  const [confirmingDeleteId, setConfirmingDeleteId] = useState<string | null>(null);
+
+  const startRename = (project: LibraryProjectSummary) => {
+    setEditingId(project.id);
+    setEditName(project.name);
+  };
+
+  const commitRename = () => {
+    if (editingId && editName.trim()) onRename(editingId, editName.trim());
+    setEditingId(null);
+  };
+
+  const handleDeleteClick = (id: string) => {
+    if (confirmingDeleteId === id) {
+      onDelete(id);
+      setConfirmingDeleteId(null);
+    } else {
+      setConfirmingDeleteId(id);
+      setTimeout(() => setConfirmingDeleteId(prev => (prev === id ? null : prev)), 3000);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <button onClick={onSaveCurrent} disabled={isDisabled} className="w-full flex items-center justify-center bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 px-4 rounded-md transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed">
+        <SaveIcon /> <span className="ml-2">{currentProjectId ? 'Update in Library' : 'Save to Library'}</span>
+      </button>
+
+      {projects.length === 0 ? (
+        <p className="text-xs text-gray-500 text-center py-2">No saved projects yet.</p>
+      ) : (
+        <ul className="space-y-2 max-h-80 overflow-y-auto">
+          {projects.map(project => (
+            <li key={project.id} className={`flex items-center gap-2 p-2 rounded-md bg-gray-800 border ${project.id === currentProjectId ? 'border-blue-500/50' : 'border-transparent'}`}>
+              <button onClick={() => onOpen(project.id)} disabled={isDisabled} title="Open" className="w-14 h-14 flex-shrink-0 rounded bg-gray-900 overflow-hidden flex items-center justify-center">
+                {project.thumbnail
+                  ? <img src={project.thumbnail} alt="" className="max-w-full max-h-full object-contain" />
+                  : <FolderOpenIcon className="text-gray-600" />}
+              </button>
+              <div className="flex-1 min-w-0">
+                {editingId === project.id ? (
+                  <input
+                    autoFocus
+                    value={editName}
+                    onChange={(e) => setEditName(e.target.value)}
+                    onBlur={commitRename}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitRename();
+                      if (e.key === 'Escape') setEditingId(null);
+                    }}
+                    className="w-full bg-gray-700 text-sm text-white rounded px-1 py-0.5 outline-none focus:ring-1 focus:ring-blue-500"
+                  />
+                ) : (
+                  <p className="text-sm font-medium text-gray-200 truncate" title={project.name}>{project.name}</p>
+                )}
+                <p className="text-xs text-gray-500">{new Date(project.updatedAt).toLocaleString()}</p>
+                <p className="text-xs text-gray-500">{project.imageCount} image{project.imageCount === 1 ? '' : 's'}</p>
+              </div>
+              <div className="flex flex-col gap-1">
+                <button onClick={() => startRename(project)} title="Rename" className="p-1 rounded text-gray-400 hover:text-white hover:bg-gray-700"><PencilIcon className="w-3.5 h-3.5" /></button>
+                <button onClick={() => onDuplicate(project.id)} title="Duplicate" className="p-1 rounded text-gray-400 hover:text-white hover:bg-gray-700"><DuplicateIcon className="w-3.5 h-3.5" /></button>
+                <button onClick={() => handleDeleteClick(project.id)} title={confirmingDeleteId === project.id ? 'Click again to delete' : 'Delete'} className={`p-1 rounded hover:bg-gray-700 ${confirmingDeleteId === project.id ? 'text-red-500' : 'text-gray-400 hover:text-red-400'}`}><TrashIcon className="w-3.5 h-3.5" /></button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,26 @@
+import React from 'react';
+
+interface RestoreSessionDialogProps {
+  savedAt: number;
+  imageCount: number;
+  onRestore: () => void;
+  onDiscard: () => void;
+}
+
+export const RestoreSessionDialog: React.FC<RestoreSessionDialogProps> = ({ savedAt, imageCount, onRestore, onDiscard }) => {
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60">
+      <div className="w-96 p-6 bg-gray-800 rounded-lg shadow-xl border border-gray-700 text-gray-200">
+        <h2 className="text-lg font-bold text-white mb-2">Restore previous session?</h2>
+        <p className="text-sm text-gray-400 mb-6">
+          An unsaved session from {new Date(savedAt).toLocaleString()} was found
+          ({imageCount} image{imageCount === 1 ? '' : 's'}).
+        </p>
+        <div className="flex gap-2">
+          <button onClick={onDiscard} className="flex-1 text-sm bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 px-4 rounded-md transition-all duration-200">Discard</button>
+          <button onClick={onRestore} className="flex-1 text-sm bg-blue-600 hover:bg-blue-500 text-white font-bold py-2 px-4 rounded-md transition-all duration-200">Restore</button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,218 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { CanvasImage, Point, ToneChannel, ToneCurve, ToneLevels } from '../types';
+import { computeImageHistogram } from '../utils/imageProcessingUtils';
+import {
+  TONE_CHANNELS, TONE_CHANNEL_LABELS, DEFAULT_LEVELS, DEFAULT_CURVE, Histogram,
+  createToneCurve, isChannelNeutral, isToneCurveNeutral, sampleCurve, applyToneCurveToHistogram,
+} from '../utils/toneCurveUtils';
+
+interface ToneCurvePanelProps {
+  image: CanvasImage;
+  onChange: (toneCurve: ToneCurve | undefined) => void;
+}
+
+// How close, in curve units (0-255), a click must be to grab an existing point.
+const POINT_HIT_RADIUS = 10;
+
+const CHANNEL_COLORS: Record<Exclude<ToneChannel, 'rgb'>, string> = { red: '#ef4444', green: '#22c55e', blue: '#3b82f6' };
+
+const getChannelCounts = (histogram: Histogram, channel: ToneChannel): Uint32Array => {
+  if (channel !== 'rgb') return histogram[channel];
+  const sum = new Uint32Array(256);
+  for (let v = 0; v < 256; v++) sum[v] = histogram.red[v] + histogram.green[v] + histogram.blue[v];
+  return sum;
+};
+
+// An SVG path filling the area under the counts, scaled so the tallest bar reaches the top.
+const histogramPath = (counts: Uint32Array): string => {
+  // The square root keeps a few dominant values from flattening everything else.
+  const max = Math.sqrt(Math.max(1, ...counts));
+  let d = 'M0 256';
+  counts.forEach((count, v) => { d += ` L${v} ${256 - (Math.sqrt(count) / max) * 256}`; });
+  return `${d} L255 256 Z`;
+};
+
+const HistogramView: React.FC<{ histogram: Histogram; channel: ToneChannel }> = ({ histogram, channel }) => {
+  const channels = channel === 'rgb' ? (['red', 'green', 'blue'] as const) : [channel];
+  return (
+    <svg viewBox="0 0 256 256" preserveAspectRatio="none" className="w-full h-16 bg-gray-900 rounded-md border border-gray-700">
+      {channels.map(c => (
+        <path key={c} d={histogramPath(histogram[c])} fill={CHANNEL_COLORS[c]} fillOpacity={channel === 'rgb' ? 0.45 : 0.7} style={{ mixBlendMode: 'screen' }} />
+      ))}
+    </svg>
+  );
+};
+
+const CurveEditor: React.FC<{
+  points: Point[];
+  channel: ToneChannel;
+  inputHistogram: Histogram;
+  onChange: (points: Point[]) => void;
+}> = ({ points, channel, inputHistogram, onChange }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dragIndexRef = useRef<number | null>(null);
+  const color = channel === 'rgb' ? '#e5e7eb' : CHANNEL_COLORS[channel];
+
+  const curvePath = useMemo(() => {
+    const lut = sampleCurve(points);
+    let d = '';
+    lut.forEach((y, x) => { d += `${x === 0 ? 'M' : ' L'}${x} ${255 - Math.min(255, Math.max(0, y))}`; });
+    return d;
+  }, [points]);
+
+  const toCurvePoint = (e: React.MouseEvent): Point => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    return {
+      x: Math.round(Math.min(255, Math.max(0, ((e.clientX - rect.left) / rect.width) * 255))),
+      y: Math.round(Math.min(255, Math.max(0, 255 - ((e.clientY - rect.top) / rect.height) * 255))),
+    };
+  };
+
+  const findPointNear = (p: Point) => points.findIndex(q => Math.hypot(q.x - p.x, q.y - p.y) <= POINT_HIT_RADIUS);
+
+  // Points keep their order: each one stays strictly between its neighbours.
+  const movePoint = (index: number, p: Point) => {
+    const minX = index === 0 ? 0 : points[index - 1].x + 1;
+    const maxX = index === points.length - 1 ? 255 : points[index + 1].x - 1;
+    onChange(points.map((q, i) => i === index ? { x: Math.min(maxX, Math.max(minX, p.x)), y: p.y } : q));
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (e.button !== 0) return;
+    const p = toCurvePoint(e);
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const nearest = findPointNear(p);
+    if (nearest !== -1) {
+      dragIndexRef.current = nearest;
+      return;
+    }
+    const index = points.findIndex(q => q.x > p.x);
+    if (index <= 0 || points.some(q => q.x === p.x)) return; // Outside the end points, or on top of one
+    dragIndexRef.current = index;
+    onChange([...points.slice(0, index), p, ...points.slice(index)]);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (dragIndexRef.current !== null) movePoint(dragIndexRef.current, toCurvePoint(e));
+  };
+
+  const handlePointerUp = () => { dragIndexRef.current = null; };
+
+  // The end points can be moved but not removed.
+  const handleDoubleClick = (e: React.MouseEvent<SVGSVGElement>) => {
+    const index = findPointNear(toCurvePoint(e));
+    if (index > 0 && index < points.length - 1) onChange(points.filter((_, i) => i !== index));
+  };
+
+  return (
+    <svg
+      ref={svgRef}
+      viewBox="0 0 255 255"
+      className="w-full aspect-square bg-gray-900 rounded-md border border-gray-700 cursor-crosshair touch-none"
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onDoubleClick={handleDoubleClick}
+    >
+      <path d={histogramPath(getChannelCounts(inputHistogram, channel))} fill="#4b5563" fillOpacity={0.5} />
+      {[64, 128, 192].map(v => (
+        <g key={v} stroke="#374151" strokeWidth={0.75}>
+          <line x1={v} y1={0} x2={v} y2={255} />
+          <line x1={0} y1={v} x2={255} y2={v} />
+        </g>
+      ))}
+      <line x1={0} y1={255} x2={255} y2={0} stroke="#4b5563" strokeWidth={0.75} strokeDasharray="3 3" />
+      <path d={curvePath} fill="none" stroke={color} strokeWidth={1.5} />
+      {points.map((p, i) => (
+        <circle
+          key={i}
+          cx={p.x}
+          cy={255 - p.y}
+          r={4}
+          fill="#111827"
+          stroke={color}
+          strokeWidth={1.5}
+        />
+      ))}
+    </svg>
+  );
+};
+
+const LevelsSlider: React.FC<{
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step?: number;
+  onChange: (value: number) => void;
+}> = ({ label, value, min, max, step = 1, onChange }) => (
+  <div className="flex items-center space-x-2">
+    <label className="w-20 shrink-0 text-xs text-gray-400">{label}</label>
+    <input type="range" min={min} max={max} step={step} value={value} onChange={e => onChange(parseFloat(e.target.value))} className="w-full" />
+    <span className="text-xs font-mono w-12 text-center bg-gray-900 rounded-md py-1 border border-gray-700">{step < 1 ? value.toFixed(2) : value}</span>
+  </div>
+);
+
+export const ToneCurvePanel: React.FC<ToneCurvePanelProps> = ({ image, onChange }) => {
+  const [channel, setChannel] = useState<ToneChannel>('rgb');
+  const toneCurve = image.toneCurve ?? createToneCurve();
+  const levels = toneCurve.levels[channel];
+
+  const inputHistogram = useMemo(() => computeImageHistogram(image), [image.element, image.cropRect, image.originalWidth, image.originalHeight, image.adjustments]);
+  const outputHistogram = useMemo(() => applyToneCurveToHistogram(inputHistogram, toneCurve), [inputHistogram, image.toneCurve]);
+
+  const update = (next: ToneCurve) => onChange(isToneCurveNeutral(next) ? undefined : next);
+  const updateLevels = (changes: Partial<ToneLevels>) =>
+    update({ ...toneCurve, levels: { ...toneCurve.levels, [channel]: { ...levels, ...changes } } });
+  const updateCurve = (points: Point[]) => update({ ...toneCurve, curves: { ...toneCurve.curves, [channel]: points } });
+  const resetChannel = () => update({
+    levels: { ...toneCurve.levels, [channel]: { ...DEFAULT_LEVELS } },
+    curves: { ...toneCurve.curves, [channel]: DEFAULT_CURVE.map(p => ({ ...p })) },
+  });
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-1">
+        {TONE_CHANNELS.map(c => (
+          <button
+            key={c}
+            onClick={() => setChannel(c)}
+            className={`flex-1 text-xs py-1 rounded-md transition-colors duration-200 ${channel === c ? 'bg-blue-600 text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'}`}
+          >
+            {TONE_CHANNEL_LABELS[c]}{isChannelNeutral(toneCurve, c) ? '' : ' •'}
+          </button>
+        ))}
+      </div>
+
+      <HistogramView histogram={outputHistogram} channel={channel} />
+
+      <div className="space-y-1">
+        <CurveEditor points={toneCurve.curves[channel]} channel={channel} inputHistogram={inputHistogram} onChange={updateCurve} />
+        <p className="text-xs text-gray-500">Click to add a point, drag to move it, double-click to remove it.</p>
+      </div>
+
+      <div className="space-y-1">
+        <p className="text-sm font-medium">Input Levels</p>
+        <LevelsSlider label="Black" value={levels.inputBlack} min={0} max={254} onChange={v => updateLevels({ inputBlack: Math.min(v, levels.inputWhite - 1) })} />
+        <LevelsSlider label="Midtones" value={levels.gamma} min={0.1} max={9.99} step={0.01} onChange={gamma => updateLevels({ gamma })} />
+        <LevelsSlider label="White" value={levels.inputWhite} min={1} max={255} onChange={v => updateLevels({ inputWhite: Math.max(v, levels.inputBlack + 1) })} />
+      </div>
+
+      <div className="space-y-1">
+        <p className="text-sm font-medium">Output Levels</p>
+        <LevelsSlider label="Black" value={levels.outputBlack} min={0} max={255} onChange={outputBlack => updateLevels({ outputBlack })} />
+        <LevelsSlider label="White" value={levels.outputWhite} min={0} max={255} onChange={outputWhite => updateLevels({ outputWhite })} />
+      </div>
+
+      <div className="flex gap-2">
+        <button onClick={resetChannel} disabled={isChannelNeutral(toneCurve, channel)} className="flex-1 flex items-center justify-center bg-gray-700 hover:bg-gray-600 text-white text-sm font-bold py-2 px-4 rounded-md transition-colors duration-200 disabled:opacity-50 disabled:hover:bg-gray-700">
+          Reset {TONE_CHANNEL_LABELS[channel]}
+        </button>
+        <button onClick={() => onChange(undefined)} disabled={!image.toneCurve} className="flex-1 flex items-center justify-center bg-gray-700 hover:bg-gray-600 text-white text-sm font-bold py-2 px-4 rounded-md transition-colors duration-200 disabled:opacity-50 disabled:hover:bg-gray-700">
+          Reset All
+        </button>
+      </div>
+    </div>
+  );
+};
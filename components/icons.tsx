@@ -51,6 +51,14 @@ export const RotateCwIcon: React.FC<{ className?: string }> = ({ className }) =>
   <Icon className={className}><polyline points="23 4 23 10 17 10" /><path d="M20.49 15a9 9 0 1 1-2.12-9.36L23 10" /></Icon>
 );
 
+export const FlipHorizontalIcon: React.FC<{ className?: string }> = ({ className }) => (
+  <Icon className={className}><path d="M8 3H5a2 2 0 0 0-2 2v14a2 2 0 0 0 2 2h3" /><path d="M16 3h3a2 2 0 0 1 2 2v14a2 2 0 0 1-2 2h-3" /><line x1="12" y1="20" x2="12" y2="22" /><line x1="12" y1="14" x2="12" y2="16" /><line x1="12" y1="8" x2="12" y2="10" /><line x1="12" y1="2" x2="12" y2="4" /></Icon>
+);
+
+export const FlipVerticalIcon: React.FC<{ className?: string }> = ({ className }) => (
+  <Icon className={className}><path d="M21 8V5a2 2 0 0 0-2-2H5a2 2 0 0 0-2 2v3" /><path d="M21 16v3a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-3" /><line x1="4" y1="12" x2="2" y2="12" /><line x1="10" y1="12" x2="8" y2="12" /><line x1="16" y1="12" x2="14" y2="12" /><line x1="22" y1="12" x2="20" y2="12" /></Icon>
+);
+
 export const ScaleIcon: React.FC<{ className?: string }> = ({ className }) => (
   <Icon className={className}><path d="M21 21l-6-6m6 6v-4.8m0 4.8h-4.8" /><path d="M3 16.2V21h4.8" /><path d="M3 3h18v18H3z" /></Icon>
 );
@@ -0,0 +1,103 @@
+import { readFileSync } from 'fs';
+import { describe, expect, it } from 'vitest';
+import { CURRENT_PROJECT_VERSION, migrateProject } from '../utils/migrationUtils';
+import { parseProjectFile, validateProjectData } from '../utils/projectUtils';
+
+const readFixture = (name: string) => readFileSync(new URL(`./fixtures/${name}`, import.meta.url), 'utf8');
+
+describe('project migrations', () => {
+  it('upgrades a version 1 project to the current version', () => {
+    const project = parseProjectFile(readFixture('project-v1.cpro'));
+
+    expect(project.version).toBe(CURRENT_PROJECT_VERSION);
+    expect(project.images).toHaveLength(1);
+    expect(project.images[0]).toMatchObject({
+      id: 'img-1',
+      visible: true,
+      locked: false,
+      tags: [],
+      outlineColor: '#000000',
+      outlineWidth: 0,
+      outlineOpacity: 1,
+      cropRect: null,
+    });
+    expect(project.images[0].annotations[0]).toMatchObject({ id: 'ann-1', scale: 1, rotation: 0 });
+    expect(project.groups[0]).toMatchObject({
+      id: 'group-1',
+      label: 'Photos',
+      showLabel: false,
+      groupIds: [],
+      isExpanded: true,
+      parentId: null,
+      visible: true,
+      locked: false,
+    });
+    expect(project.canvasAnnotations[0]).toMatchObject({ id: 'ann-2', scale: 1, rotation: 0 });
+    expect(project.exportSlices).toEqual([]);
+    expect(project.exportPresets).toEqual([]);
+  });
+
+  it('upgrades a version 2 project without touching its explicit settings', () => {
+    const project = parseProjectFile(readFixture('project-v2.cpro'));
+
+    expect(project.version).toBe(CURRENT_PROJECT_VERSION);
+    expect(project.images[0]).toMatchObject({
+      visible: false,
+      locked: true,
+      tags: ['draft'],
+      outlineColor: '#00ff00',
+      outlineWidth: 3,
+      outlineOpacity: 0.5,
+    });
+    expect(project.groups[0]).toMatchObject({ label: 'Drafts', showLabel: true, isExpanded: false });
+    expect(project.viewTransform).toEqual({ scale: 0.5, offset: { x: 20, y: -10 } });
+    expect(project.exportSlices).toEqual([]);
+    expect(project.exportPresets).toEqual([]);
+  });
+
+  it('applies every step in order', () => {
+    const v1 = JSON.parse(readFixture('project-v1.cpro'));
+    const v2 = JSON.parse(readFixture('project-v2.cpro'));
+
+    expect(migrateProject(v1).version).toBe(CURRENT_PROJECT_VERSION);
+    expect(migrateProject(v2).version).toBe(CURRENT_PROJECT_VERSION);
+    expect(migrateProject(migrateProject(v1))).toEqual(migrateProject(v1));
+  });
+
+  it('reports invalid image entries instead of failing the upgrade', () => {
+    const v1 = JSON.parse(readFixture('project-v1.cpro'));
+    v1.images.push(null);
+
+    expect(() => validateProjectData(v1)).toThrow('Image #2 is not a valid image entry.');
+  });
+
+  it('reports invalid entries in every list', () => {
+    const withGroup = JSON.parse(readFixture('project-v1.cpro'));
+    withGroup.groups.push('group-2');
+    expect(() => validateProjectData(withGroup)).toThrow('Group #2 is not a valid group entry.');
+
+    const withCanvasAnnotation = JSON.parse(readFixture('project-v1.cpro'));
+    withCanvasAnnotation.canvasAnnotations.unshift(null);
+    expect(() => validateProjectData(withCanvasAnnotation)).toThrow('Canvas annotation #1 is not a valid annotation entry.');
+
+    const withImageAnnotation = JSON.parse(readFixture('project-v1.cpro'));
+    withImageAnnotation.images[0].annotations.push(42);
+    expect(() => validateProjectData(withImageAnnotation)).toThrow('Image #1, annotation #2 is not a valid annotation entry.');
+
+    const withSlice = migrateProject(JSON.parse(readFixture('project-v2.cpro')));
+    withSlice.exportSlices.push({ id: 'slice-1', name: 'Header', rect: null, presetId: null });
+    expect(() => validateProjectData(withSlice)).toThrow('Slice #1 has an invalid area.');
+  });
+
+  it('rejects a group list that is not a list', () => {
+    const v1 = { ...JSON.parse(readFixture('project-v1.cpro')), groups: { 'group-1': {} } };
+
+    expect(() => validateProjectData(v1)).toThrow('The project file has an invalid group list.');
+  });
+
+  it('rejects projects from newer versions', () => {
+    const future = { ...JSON.parse(readFixture('project-v2.cpro')), version: CURRENT_PROJECT_VERSION + 1 };
+
+    expect(() => validateProjectData(future)).toThrow(/newer version/);
+  });
+});
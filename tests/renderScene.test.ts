@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { ArrowAnnotation, CanvasImage, TextAnnotation } from '../types';
+import { renderScene } from '../utils/canvasUtils';
+
+// A 2D context that draws nothing and records which methods were called.
+const createRecordingContext = () => {
+  const calls: string[] = [];
+  const ctx = new Proxy({} as Record<string | symbol, unknown>, {
+    get: (target, prop) => {
+      if (prop in target) return target[prop];
+      if (prop === 'measureText') return (text: string) => ({ width: text.length * 8 });
+      return (..._args: unknown[]) => { calls.push(String(prop)); };
+    },
+    set: (target, prop, value) => {
+      target[prop] = value;
+      return true;
+    },
+  }) as unknown as CanvasRenderingContext2D;
+  return { ctx, calls };
+};
+
+const createImage = (x: number, annotation: ArrowAnnotation | TextAnnotation): CanvasImage => ({
+  id: 'img-1',
+  name: 'photo.jpg',
+  element: { complete: true, naturalWidth: 200, naturalHeight: 100 } as HTMLImageElement,
+  x,
+  y: 0,
+  width: 200,
+  height: 100,
+  scale: 1,
+  rotation: 0,
+  annotations: [annotation],
+  createdAt: new Date(0),
+  originalWidth: 200,
+  originalHeight: 100,
+  cropRect: null,
+});
+
+const arrow: ArrowAnnotation = {
+  id: 'ann-1', type: 'arrow', color: '#ff0000', strokeWidth: 4, scale: 1, rotation: 0,
+  start: { x: 100, y: 50 }, end: { x: 2150, y: 50 },
+};
+
+const text: TextAnnotation = {
+  id: 'ann-2', type: 'text', color: '#ffffff', strokeWidth: 1, scale: 1, rotation: 0,
+  x: 2100, y: 40, text: 'Label', fontSize: 24, fontFamily: 'sans-serif',
+  backgroundColor: '#000000', backgroundOpacity: 0, strokeColor: '#000000', strokeOpacity: 0,
+};
+
+const render = (image: CanvasImage, clipAnnotationsToImages = false) => {
+  const { ctx, calls } = createRecordingContext();
+  renderScene(ctx, { images: [image], canvasAnnotations: [], groups: [] }, {
+    viewTransform: { scale: 1, offset: { x: 0, y: 0 } },
+    viewportSize: { width: 800, height: 600 },
+    clipAnnotationsToImages,
+  });
+  return calls;
+};
+
+describe('renderScene culling', () => {
+  it('draws an image whose arrow reaches into the view while the image is panned out of it', () => {
+    const calls = render(createImage(-2000, arrow));
+    expect(calls).toContain('drawImage');
+    expect(calls).toContain('stroke');
+  });
+
+  it('draws an image whose text sits in the view while the image is panned out of it', () => {
+    const calls = render(createImage(-2000, text));
+    expect(calls).toContain('fillText');
+  });
+
+  it('skips an image when neither it nor its annotations are in view', () => {
+    expect(render(createImage(-5000, arrow))).not.toContain('drawImage');
+  });
+
+  it('culls by the frame alone when annotations are clipped to their image', () => {
+    expect(render(createImage(-2000, arrow), true)).not.toContain('drawImage');
+  });
+});
@@ -82,6 +82,42 @@ export interface LineAnnotation extends AnnotationBase {
 
 export type Annotation = FreehandAnnotation | TextAnnotation | RectAnnotation | CircleAnnotation | ArrowAnnotation | LineAnnotation;
 
+export type AdjustmentType = 'brightness' | 'contrast' | 'saturation' | 'hue' | 'exposure' | 'temperature' | 'gamma';
+
+export interface ImageAdjustment {
+  id: string;
+  type: AdjustmentType;
+  value: number;
+  enabled: boolean;
+  auto?: boolean; // Added by Auto Enhance, which replaces these entries when run again
+}
+
+export type FilterType = 'blur' | 'sharpen' | 'grayscale' | 'sepia' | 'invert' | 'pixelate';
+
+export interface ImageFilter {
+  id: string;
+  type: FilterType;
+  amount: number;
+  enabled: boolean;
+}
+
+// 'rgb' edits all three color channels together; the others edit one channel.
+export type ToneChannel = 'rgb' | 'red' | 'green' | 'blue';
+
+// Input and output ranges in 0-255; gamma bends the midtones between them.
+export interface ToneLevels {
+  inputBlack: number;
+  inputWhite: number;
+  gamma: number;
+  outputBlack: number;
+  outputWhite: number;
+}
+
+export interface ToneCurve {
+  levels: Record<ToneChannel, ToneLevels>;
+  curves: Record<ToneChannel, Point[]>; // Control points in 0-255, sorted by x, including both ends
+}
+
 export interface CanvasImage {
   id: string;
   name: string;
@@ -92,12 +128,15 @@ export interface CanvasImage {
   height: number;
   scale: number;
   rotation: number; // in degrees
+  flipX?: boolean; // Mirrors the pixels within the frame; annotations are placed in the frame, not mirrored
+  flipY?: boolean;
   annotations: Annotation[];
   createdAt: Date;
   outlineColor?: string;
   outlineWidth?: number;
   outlineOpacity?: number;
   uncroppedFromId?: string;
+  bakedFromId?: string; // Archive key of the pixel source a bake replaced
   originalWidth: number;
   originalHeight: number;
   cropRect: Rect | null;
@@ -105,10 +144,74 @@ export interface CanvasImage {
   tags?: string[];
   visible?: boolean;
   locked?: boolean;
+  metadata?: ImageMetadata;
+  adjustments?: ImageAdjustment[]; // Applied in order at render time; the element is never modified
+  toneCurve?: ToneCurve; // Levels, then curves; applied after the adjustments and before the filters
+  filters?: ImageFilter[]; // Applied in order after the adjustments and tone curve
+}
+
+// Photo details read from the source file's EXIF data on import.
+export interface ImageMetadata {
+  make?: string;
+  model?: string;
+  lensModel?: string;
+  dateTaken?: string; // Local time as YYYY-MM-DDTHH:mm:ss, EXIF has no time zone
+  latitude?: number;
+  longitude?: number;
+  altitude?: number; // Meters above sea level
+}
+
+// Stand-in drawn on the canvas while an imported file is still decoding.
+export interface ImportPlaceholder {
+  id: string;
+  name: string;
+  rect: Rect;
 }
 
 export type AspectRatio = 'free' | '1:1' | '4:3' | '16:9';
 
+export type ExportFormat = 'png' | 'jpeg' | 'webp' | 'svg';
+
+export interface ExportOptions {
+  scale: number; // Output resolution multiplier
+  padding: number; // Canvas units added around the content bounds
+  transparentBackground: boolean;
+  backgroundColor: string;
+  quality: number; // 0-1, used by JPEG and WebP
+  keepMetadata?: boolean; // Write photo metadata into JPEG and PNG files
+}
+
+export interface ExportPreset {
+  id: string;
+  name: string;
+  format: ExportFormat;
+  options: ExportOptions;
+}
+
+// A named region of the canvas that can be exported repeatedly without cropping.
+export interface ExportSlice {
+  id: string;
+  name: string;
+  rect: Rect;
+  presetId: string | null; // null uses the current export settings
+}
+
+export interface ToolOptions {
+  color: string;
+  strokeWidth: number;
+  fontSize: number;
+  fontFamily: string;
+  backgroundColor: string;
+  backgroundOpacity: number;
+  strokeColor: string;
+  strokeOpacity: number;
+  fillColor: string;
+  fillOpacity: number;
+  outlineColor: string;
+  outlineWidth: number;
+  outlineOpacity: number;
+}
+
 export interface Group {
   id: string;
   name: string;
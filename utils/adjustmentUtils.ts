@@ -0,0 +1,195 @@
+import { AdjustmentType, ImageAdjustment } from '../types';
+import { Histogram } from './toneCurveUtils';
+
+export const ADJUSTMENT_DEFINITIONS: Record<AdjustmentType, { label: string; min: number; max: number; step: number; defaultValue: number; unit?: string }> = {
+  brightness: { label: 'Brightness', min: -100, max: 100, step: 1, defaultValue: 0 },
+  contrast: { label: 'Contrast', min: -100, max: 100, step: 1, defaultValue: 0 },
+  saturation: { label: 'Saturation', min: -100, max: 100, step: 1, defaultValue: 0 },
+  hue: { label: 'Hue', min: -180, max: 180, step: 1, defaultValue: 0, unit: '°' },
+  exposure: { label: 'Exposure', min: -3, max: 3, step: 0.1, defaultValue: 0, unit: ' EV' },
+  temperature: { label: 'Temperature', min: -100, max: 100, step: 1, defaultValue: 0 },
+  gamma: { label: 'Gamma', min: 0.1, max: 3, step: 0.05, defaultValue: 1 },
+};
+
+export const createAdjustment = (type: AdjustmentType): ImageAdjustment => ({
+  id: `adj-${Date.now()}-${Math.random()}`,
+  type,
+  value: ADJUSTMENT_DEFINITIONS[type].defaultValue,
+  enabled: true,
+});
+
+// Adjustments that change pixels, in order. Disabled and neutral entries are left out.
+export const getActiveAdjustments = (adjustments: ImageAdjustment[] = []): ImageAdjustment[] =>
+  adjustments.filter(adj => adj.enabled && adj.value !== ADJUSTMENT_DEFINITIONS[adj.type].defaultValue);
+
+// Every adjustment is either a per-channel curve or a 3×3 color matrix,
+// so runs of the same kind collapse into a single pass over the pixels.
+type Operation = { kind: 'curve'; lut: Float32Array } | { kind: 'matrix'; matrix: number[] };
+
+const createCurve = (fn: (c: number) => number): Float32Array => {
+  const lut = new Float32Array(256);
+  for (let i = 0; i < 256; i++) lut[i] = fn(i);
+  return lut;
+};
+
+const LUMA = [0.2126, 0.7152, 0.0722];
+
+const toOperation = ({ type, value }: ImageAdjustment): Operation => {
+  switch (type) {
+    case 'brightness':
+      return { kind: 'curve', lut: createCurve(c => c + value * 2.55) };
+    case 'contrast': {
+      const c255 = value * 2.55;
+      const factor = (259 * (c255 + 255)) / (255 * (259 - c255));
+      return { kind: 'curve', lut: createCurve(c => factor * (c - 128) + 128) };
+    }
+    case 'exposure': {
+      const gain = Math.pow(2, value);
+      return { kind: 'curve', lut: createCurve(c => c * gain) };
+    }
+    case 'gamma':
+      return { kind: 'curve', lut: createCurve(c => 255 * Math.pow(c / 255, 1 / value)) };
+    case 'saturation': {
+      const s = 1 + value / 100;
+      const [lr, lg, lb] = LUMA.map(l => l * (1 - s));
+      return { kind: 'matrix', matrix: [lr + s, lg, lb, lr, lg + s, lb, lr, lg, lb + s] };
+    }
+    case 'hue': {
+      // Rotation around the gray axis, as in the CSS hue-rotate() filter.
+      const rad = value * Math.PI / 180;
+      const cos = Math.cos(rad);
+      const sin = Math.sin(rad);
+      return {
+        kind: 'matrix',
+        matrix: [
+          0.213 + cos * 0.787 - sin * 0.213, 0.715 - cos * 0.715 - sin * 0.715, 0.072 - cos * 0.072 + sin * 0.928,
+          0.213 - cos * 0.213 + sin * 0.143, 0.715 + cos * 0.285 + sin * 0.140, 0.072 - cos * 0.072 - sin * 0.283,
+          0.213 - cos * 0.213 - sin * 0.787, 0.715 - cos * 0.715 + sin * 0.715, 0.072 + cos * 0.928 + sin * 0.072,
+        ],
+      };
+    }
+    case 'temperature': {
+      // Warmer pushes red up and blue down; cooler does the opposite.
+      const t = value / 100 * 0.25;
+      return { kind: 'matrix', matrix: [1 + t, 0, 0, 0, 1, 0, 0, 0, 1 - t] };
+    }
+  }
+};
+
+const multiplyMatrices = (a: number[], b: number[]): number[] => {
+  const result = new Array(9).fill(0);
+  for (let row = 0; row < 3; row++) {
+    for (let col = 0; col < 3; col++) {
+      for (let k = 0; k < 3; k++) result[row * 3 + col] += a[row * 3 + k] * b[k * 3 + col];
+    }
+  }
+  return result;
+};
+
+const clampByte = (v: number) => (v < 0 ? 0 : v > 255 ? 255 : v);
+
+// Composes neighbouring operations of the same kind: curves by lookup, matrices by multiplication.
+const compileOperations = (adjustments: ImageAdjustment[]): Operation[] => {
+  const operations: Operation[] = [];
+  adjustments.map(toOperation).forEach(op => {
+    const last = operations[operations.length - 1];
+    if (last?.kind === 'curve' && op.kind === 'curve') {
+      const combined = new Float32Array(256);
+      for (let i = 0; i < 256; i++) combined[i] = op.lut[Math.round(clampByte(last.lut[i]))];
+      last.lut = combined;
+    } else if (last?.kind === 'matrix' && op.kind === 'matrix') {
+      last.matrix = multiplyMatrices(op.matrix, last.matrix);
+    } else {
+      operations.push(op);
+    }
+  });
+  return operations;
+};
+
+/**
+ * Applies the adjustments in order to RGBA pixels in place. Alpha is kept.
+ * Free of DOM access, so it can also run in a worker.
+ */
+export const applyAdjustments = (pixels: Uint8ClampedArray, adjustments: ImageAdjustment[]) => {
+  compileOperations(getActiveAdjustments(adjustments)).forEach(op => {
+    if (op.kind === 'curve') {
+      const lut = op.lut;
+      for (let i = 0; i < pixels.length; i += 4) {
+        pixels[i] = lut[pixels[i]];
+        pixels[i + 1] = lut[pixels[i + 1]];
+        pixels[i + 2] = lut[pixels[i + 2]];
+      }
+    } else {
+      const [m0, m1, m2, m3, m4, m5, m6, m7, m8] = op.matrix;
+      for (let i = 0; i < pixels.length; i += 4) {
+        const r = pixels[i], g = pixels[i + 1], b = pixels[i + 2];
+        pixels[i] = m0 * r + m1 * g + m2 * b;
+        pixels[i + 1] = m3 * r + m4 * g + m5 * b;
+        pixels[i + 2] = m6 * r + m7 * g + m8 * b;
+      }
+    }
+  });
+};
+
+// Share of pixels allowed to clip at each end when stretching.
+const AUTO_CLIP = 0.005;
+// Keeps nearly flat images (fog, blank screenshots) from being stretched into noise.
+const AUTO_MIN_RANGE = 64;
+// The mild contrast boost on top of the stretch, as a factor around mid-gray.
+const AUTO_CONTRAST = 1.1;
+
+const clamp = (v: number, min: number, max: number) => Math.min(max, Math.max(min, v));
+
+const percentile = (counts: Uint32Array, total: number, share: number): number => {
+  let seen = 0;
+  for (let v = 0; v < 256; v++) {
+    seen += counts[v];
+    if (seen > total * share) return v;
+  }
+  return 255;
+};
+
+const createAutoAdjustment = (type: AdjustmentType, value: number): ImageAdjustment => {
+  const { min, max } = ADJUSTMENT_DEFINITIONS[type];
+  return { ...createAdjustment(type), value: clamp(Math.round(value), min, max), auto: true };
+};
+
+/**
+ * Adjustments that normalize pixels with the given histogram: gray-world white
+ * balance as a temperature shift, a stretch of the range as brightness and
+ * contrast, and a mild extra contrast. Neutral results are left out, and every
+ * entry stays editable afterwards.
+ */
+export const createAutoAdjustments = (histogram: Histogram): ImageAdjustment[] => {
+  const total = histogram.red.reduce((sum, count) => sum + count, 0);
+  if (total === 0) return [];
+
+  // Temperature scales red by 1 + t and blue by 1 - t and leaves green alone. The t that brings
+  // red and blue closest to the gray of all three channels (least squares) is
+  // (r - b)(gray - r - b) / (r² + b²).
+  const mean = (counts: Uint32Array) => counts.reduce((sum, count, v) => sum + count * v, 0) / total;
+  const red = mean(histogram.red);
+  const blue = mean(histogram.blue);
+  const gray = (red + mean(histogram.green) + blue) / 3;
+  const balance = red * red + blue * blue < 1 ? 0 : (red - blue) * (gray - red - blue) / (red * red + blue * blue);
+  const temperature = createAutoAdjustment('temperature', balance / 0.25 * 100);
+
+  // Stretch what the balanced channels produce, all three together so the balance is kept.
+  const t = temperature.value / 100 * 0.25;
+  const combined = new Uint32Array(256);
+  for (let v = 0; v < 256; v++) {
+    combined[Math.round(clampByte(v * (1 + t)))] += histogram.red[v];
+    combined[v] += histogram.green[v];
+    combined[Math.round(clampByte(v * (1 - t)))] += histogram.blue[v];
+  }
+  const black = percentile(combined, total * 3, AUTO_CLIP);
+  const white = percentile(combined, total * 3, 1 - AUTO_CLIP);
+  const stretch = white - black >= AUTO_MIN_RANGE;
+
+  // Brightness centers the range on mid-gray, then contrast spreads it out (see toOperation).
+  const brightness = createAutoAdjustment('brightness', stretch ? (128 - (black + white) / 2) / 2.55 : 0);
+  const factor = (stretch ? 255 / (white - black) : 1) * AUTO_CONTRAST;
+  const contrast = createAutoAdjustment('contrast', 259 * 255 * (factor - 1) / (259 + 255 * factor) / 2.55);
+
+  return getActiveAdjustments([temperature, brightness, contrast]);
+};
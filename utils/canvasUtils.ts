@@ -1,6 +1,8 @@
 
 
-import { CanvasImage, Rect, Point, Annotation, TextAnnotation, Group, AspectRatio, FreehandAnnotation, RectAnnotation, CircleAnnotation, ArrowAnnotation, LineAnnotation } from '../types';
+import { CanvasImage, Rect, Point, Annotation, ExportOptions, ExportSlice, ImportPlaceholder, TextAnnotation, Group, AspectRatio, FreehandAnnotation, RectAnnotation, CircleAnnotation, ArrowAnnotation, LineAnnotation } from '../types';
+import { getImageLevel } from './mipmapUtils';
+import { getProcessedSource } from './imageProcessingUtils';
 
 function hexToRgba(hex: string, opacity: number): string {
     if (!hex) hex = '#000000';
@@ -50,6 +52,31 @@ export const getImagesBounds = (imagesToBound: CanvasImage[]): Rect | null => {
   return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
 };
 
+// Positions images one after another in a row or column starting at `start`,
+// measured by their rotated bounds, with `padding` between neighbours.
+export const getArrangedPositions = (
+  sortedImages: CanvasImage[],
+  direction: 'horizontal' | 'vertical',
+  start: Point,
+  padding: number
+): Map<string, { x: number; y: number }> => {
+  let currentX = start.x;
+  let currentY = start.y;
+  const updates = new Map<string, { x: number; y: number }>();
+
+  sortedImages.forEach(img => {
+    const imgBounds = getImagesBounds([img])!;
+    updates.set(img.id, { x: img.x + currentX - imgBounds.x, y: img.y + currentY - imgBounds.y });
+
+    if (direction === 'horizontal') {
+      currentX += imgBounds.width + padding;
+    } else {
+      currentY += imgBounds.height + padding;
+    }
+  });
+  return updates;
+};
+
 export const getGroupBounds = (
     group: Group,
     allGroups: Group[],
@@ -78,10 +105,14 @@ export const getGroupBounds = (
         }
     });
 
-    if (boundsToCombine.length === 0) return null;
+    return unionRects(boundsToCombine);
+}
+
+const unionRects = (rects: Rect[]): Rect | null => {
+    if (rects.length === 0) return null;
 
     let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
-    boundsToCombine.forEach(rect => {
+    rects.forEach(rect => {
         minX = Math.min(minX, rect.x);
         minY = Math.min(minY, rect.y);
         maxX = Math.max(maxX, rect.x + rect.width);
@@ -89,8 +120,77 @@ export const getGroupBounds = (
     });
 
     return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
-}
+};
+
+let groupBoundsCache: { groups: Group[]; images: CanvasImage[]; bounds: Map<string, Rect | null> } | null = null;
+
+/**
+ * Same result as getGroupBounds for every group, computed in one pass and
+ * reused until the groups or images arrays change.
+ */
+export const getAllGroupBounds = (groups: Group[], images: CanvasImage[]): Map<string, Rect | null> => {
+    if (groupBoundsCache && groupBoundsCache.groups === groups && groupBoundsCache.images === images) {
+        return groupBoundsCache.bounds;
+    }
+
+    const imageMap = new Map(images.map(i => [i.id, i]));
+    const groupMap = new Map(groups.map(g => [g.id, g]));
+    const bounds = new Map<string, Rect | null>();
+
+    const computeBounds = (group: Group): Rect | null => {
+        if (bounds.has(group.id)) return bounds.get(group.id)!;
+        bounds.set(group.id, null); // Also guards against cyclic nesting
+        if (group.visible === false) return null;
+
+        const childImages = group.imageIds.map(id => imageMap.get(id)).filter(Boolean) as CanvasImage[];
+        const childBounds = [
+            getImagesBounds(childImages),
+            ...group.groupIds.map(id => groupMap.get(id)).map(child => child ? computeBounds(child) : null),
+        ].filter(Boolean) as Rect[];
+        const result = unionRects(childBounds);
+        bounds.set(group.id, result);
+        return result;
+    };
+    groups.forEach(computeBounds);
+
+    groupBoundsCache = { groups, images, bounds };
+    return bounds;
+};
+
+// IDs of all images in a group and its visible descendant groups.
+export const getGroupImageIds = (group: Group, allGroups: Group[]): string[] => {
+    if (group.visible === false) return [];
+    const groupMap = new Map(allGroups.map(g => [g.id, g]));
+    const childIds = group.groupIds.flatMap(id => {
+        const child = groupMap.get(id);
+        return child ? getGroupImageIds(child, allGroups) : [];
+    });
+    return [...group.imageIds, ...childIds];
+};
+
+// Images that are actually drawn, bottom to top: skips hidden images and images
+// inside a hidden group or any hidden ancestor group.
+export const getRenderableImages = (itemsToDraw: CanvasImage[], groups: Group[]): CanvasImage[] => {
+    const groupMap = new Map(groups.map(g => [g.id, g]));
+    const isGroupHidden = (group: Group): boolean => {
+        const seen = new Set<string>();
+        let current: Group | undefined = group;
+        while (current && !seen.has(current.id)) {
+            if (current.visible === false) return true;
+            seen.add(current.id);
+            current = current.parentId ? groupMap.get(current.parentId) : undefined;
+        }
+        return false;
+    };
+    const hiddenImageIds = new Set<string>();
+    groups.forEach(group => {
+        if (isGroupHidden(group)) group.imageIds.forEach(id => hiddenImageIds.add(id));
+    });
+    return itemsToDraw.filter(img => img.visible !== false && !hiddenImageIds.has(img.id));
+};
 
+// Local points are in the image's frame as shown. Flips only mirror the pixels inside
+// that frame (see getSourceRect), so they need no handling here or in the inverse below.
 export const transformLocalToGlobal = (localPoint: Point, image: CanvasImage): Point => {
     const imgCenterX = image.x + (image.width * image.scale) / 2;
     const imgCenterY = image.y + (image.height * image.scale) / 2;
@@ -122,6 +222,20 @@ export const transformLocalToGlobal = (localPoint: Point, image: CanvasImage): P
     return globalPoint;
 };
 
+// Axis-aligned world bounds of a rect given in an image's local space.
+export const transformLocalRectToGlobal = (localRect: Rect, image: CanvasImage): Rect => {
+    const corners = [
+        { x: localRect.x, y: localRect.y },
+        { x: localRect.x + localRect.width, y: localRect.y },
+        { x: localRect.x + localRect.width, y: localRect.y + localRect.height },
+        { x: localRect.x, y: localRect.y + localRect.height }
+    ].map(corner => transformLocalToGlobal(corner, image));
+    const xs = corners.map(c => c.x);
+    const ys = corners.map(c => c.y);
+    const minX = Math.min(...xs), minY = Math.min(...ys);
+    return { x: minX, y: minY, width: Math.max(...xs) - minX, height: Math.max(...ys) - minY };
+};
+
 export const transformGlobalToLocal = (globalPoint: Point, image: CanvasImage): Point => {
     const imgCenterX = image.x + (image.width * image.scale) / 2;
     const imgCenterY = image.y + (image.height * image.scale) / 2;
@@ -153,6 +267,44 @@ export const transformGlobalToLocal = (globalPoint: Point, image: CanvasImage):
     return localPoint;
 };
 
+// The source pixels shown in a rect of an image's frame, following its crop and flips.
+// Flips mirror within the current crop, measured in source pixels.
+export const getSourceRect = (localRect: Rect, image: CanvasImage): Rect => {
+    const crop = image.cropRect ?? { x: 0, y: 0, width: image.originalWidth, height: image.originalHeight };
+    const sx = crop.width / image.width;
+    const sy = crop.height / image.height;
+    return {
+        x: crop.x + (image.flipX ? crop.width - (localRect.x + localRect.width) * sx : localRect.x * sx),
+        y: crop.y + (image.flipY ? crop.height - (localRect.y + localRect.height) * sy : localRect.y * sy),
+        width: localRect.width * sx,
+        height: localRect.height * sy,
+    };
+};
+
+/**
+ * Mirrors an annotation within an image frame of the given size, so it stays on the
+ * same content when the image is flipped. Text moves but keeps reading forwards.
+ */
+export const mirrorAnnotation = (annotation: Annotation, axis: 'x' | 'y', frame: { width: number; height: number }, ctx: CanvasRenderingContext2D): Annotation => {
+    const mirror = (p: Point): Point => axis === 'x' ? { x: frame.width - p.x, y: p.y } : { x: p.x, y: frame.height - p.y };
+    // A mirror turns every rotation the other way.
+    const rotation = -annotation.rotation;
+    switch (annotation.type) {
+        case 'arrow':
+        case 'line':
+            return { ...annotation, start: mirror(annotation.start), end: mirror(annotation.end), rotation };
+        case 'freehand':
+            return { ...annotation, points: annotation.points.map(mirror), rotation };
+        default: {
+            // Rects, circles and text are symmetric around their center, so moving the center is enough.
+            const bounds = getAnnotationPrimitiveBounds(annotation, ctx);
+            const center = { x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height / 2 };
+            const mirrored = mirror(center);
+            return { ...annotation, x: annotation.x + mirrored.x - center.x, y: annotation.y + mirrored.y - center.y, rotation };
+        }
+    }
+};
+
 export function getAnnotationPrimitiveBounds(annotation: Annotation, ctx: CanvasRenderingContext2D, options?: { ignoreStyles?: boolean }): Rect {
     const strokePadding = (annotation.strokeWidth || 1) / 2;
     const hitPadding = 15; // Increased hit area for easier selection
@@ -423,6 +575,65 @@ export const drawAnnotation = (ctx: CanvasRenderingContext2D, annotation: Annota
     ctx.restore();
 }
 
+// Moves the origin to the image center with its rotation and scale applied.
+export const applyImageTransform = (ctx: CanvasRenderingContext2D, image: CanvasImage) => {
+    const centerX = image.x + (image.width * image.scale) / 2;
+    const centerY = image.y + (image.height * image.scale) / 2;
+    ctx.translate(centerX, centerY);
+    ctx.rotate(image.rotation * Math.PI / 180);
+    ctx.scale(image.scale, image.scale);
+};
+
+/**
+ * Draws an image's pixels (with its adjustments, respecting its crop and flips), its outline and its annotations.
+ * With `clipAnnotations`, used by exports, annotations are clipped to the image so nothing shows outside a cropped frame.
+ * Shared by the on-screen canvas and every raster export.
+ * With `viewScale` (screen pixels per canvas unit) a downscaled level of a large
+ * image may be drawn instead; exports leave it out to get full resolution.
+ */
+export const drawImageLayer = (ctx: CanvasRenderingContext2D, image: CanvasImage, drawOutline = true, viewScale?: number, clipAnnotations = false) => {
+    ctx.save();
+    applyImageTransform(ctx, image);
+
+    const sx = image.cropRect ? image.cropRect.x : 0;
+    const sy = image.cropRect ? image.cropRect.y : 0;
+    const sWidth = image.cropRect ? image.cropRect.width : image.originalWidth;
+    const sHeight = image.cropRect ? image.cropRect.height : image.originalHeight;
+
+    // The screen shows the previous pixels until new ones are ready; exports prepare them beforehand.
+    const pixels = getProcessedSource(image);
+    const source = viewScale === undefined ? pixels : getImageLevel(pixels, viewScale * image.scale * image.width / sWidth);
+    const levelScale = source === pixels ? 1 : source.width / (pixels instanceof HTMLImageElement ? pixels.naturalWidth : pixels.width);
+    // Flips mirror the pixels around the center; annotations are drawn unmirrored below.
+    ctx.save();
+    ctx.scale(image.flipX ? -1 : 1, image.flipY ? -1 : 1);
+    ctx.drawImage(source, sx * levelScale, sy * levelScale, sWidth * levelScale, sHeight * levelScale, -image.width / 2, -image.height / 2, image.width, image.height);
+    ctx.restore();
+
+    if (drawOutline && image.outlineWidth && image.outlineWidth > 0) {
+        ctx.strokeStyle = hexToRgba(image.outlineColor || '#000000', image.outlineOpacity || 1);
+        ctx.lineWidth = image.outlineWidth / image.scale;
+        ctx.strokeRect(-image.width / 2, -image.height / 2, image.width, image.height);
+    }
+
+    if (clipAnnotations) {
+        ctx.beginPath();
+        ctx.rect(-image.width / 2, -image.height / 2, image.width, image.height);
+        ctx.clip();
+    }
+    ctx.translate(-image.width / 2, -image.height / 2);
+    image.annotations.forEach(anno => drawAnnotation(ctx, anno));
+
+    ctx.restore();
+};
+
+// World bounds of an image together with its annotations, which may reach outside its frame.
+export const getImageLayerBounds = (image: CanvasImage, ctx: CanvasRenderingContext2D): Rect | null => {
+    const frame = getImagesBounds([image]);
+    if (!frame) return null;
+    return unionRects([frame, ...image.annotations.map(anno => transformLocalRectToGlobal(getAnnotationBounds(anno, ctx), image))]);
+};
+
 export const getMultiAnnotationBounds = (selections: { imageId: string | null; annotationId: string }[], images: CanvasImage[], canvasAnnotations: Annotation[], ctx: CanvasRenderingContext2D): Rect | null => {
     let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
     let found = false;
@@ -497,53 +708,84 @@ export const getCropHandles = (cropArea: Rect, scale: number): { name: CropHandl
     ];
 };
 
-export const drawCanvas = (
-    ctx: CanvasRenderingContext2D,
-    canvas: HTMLCanvasElement,
-    images: CanvasImage[],
-    selectedImageIds: string[],
-    cropArea: Rect | null,
-    viewTransform: { scale: number; offset: Point },
-    drawingAnnotation: { annotation: Annotation | null, imageId: string | null },
-    selectedAnnotations: { imageId: string | null; annotationId: string }[],
-    marqueeRect: Rect | null,
-    groups: Group[],
-    canvasAnnotations: Annotation[],
-    dropTargetImageId: string | null,
-    selectedLayerId: string | null
-) => {
-    const { width, height } = canvas.getBoundingClientRect();
-    canvas.width = width;
-    canvas.height = height;
+export interface Scene {
+    images: CanvasImage[];
+    canvasAnnotations: Annotation[];
+    groups: Group[];
+}
 
-    ctx.fillStyle = '#1f2937'; // gray-800
-    ctx.fillRect(0, 0, width, height);
+// Interactive state drawn as chrome on top of the scene in the editor.
+export interface SceneSelection {
+    selectedImageIds: string[];
+    selectedAnnotations: { imageId: string | null; annotationId: string }[];
+    selectedLayerId: string | null;
+    dropTargetImageId: string | null;
+    drawingAnnotation: { annotation: Annotation | null, imageId: string | null };
+}
+
+export interface RenderSceneOptions {
+    // Maps world coordinates to the target, whose size is `viewportSize` in the context's current units.
+    viewTransform: { scale: number; offset: Point };
+    viewportSize: { width: number; height: number };
+    background?: string | null; // Transparent when not set
+    clipRect?: Rect | null; // World rect outside of which nothing is drawn
+    clipAnnotationsToImages?: boolean; // Hide the parts of image annotations outside their image, for exports
+    showGroupBounds?: boolean;
+    // Device pixels per unit of the context. When set, large images may be drawn from
+    // downscaled levels; leave it out for full resolution.
+    lodPixelRatio?: number;
+    selection?: SceneSelection | null;
+}
+
+/**
+ * Draws images in layer order (skipping hidden ones), group boxes and canvas
+ * annotations. The one renderer behind the editor canvas, exports, the clipboard
+ * and thumbnails, so anything that changes how an image looks only needs adding here.
+ */
+export const renderScene = (ctx: CanvasRenderingContext2D, scene: Scene, options: RenderSceneOptions) => {
+    const { images, canvasAnnotations, groups } = scene;
+    const { viewTransform, viewportSize: { width, height }, background = null, clipRect = null, clipAnnotationsToImages = false, showGroupBounds = false, lodPixelRatio, selection } = options;
+    const selectedImageIds = selection?.selectedImageIds ?? [];
+    const selectedAnnotations = selection?.selectedAnnotations ?? [];
+    const drawingAnnotation = selection?.drawingAnnotation ?? { annotation: null, imageId: null };
+    const dropTargetImageId = selection?.dropTargetImageId ?? null;
+    const selectedLayerId = selection?.selectedLayerId ?? null;
 
     ctx.save();
+    if (background) {
+        ctx.fillStyle = background;
+        ctx.fillRect(0, 0, width, height);
+    }
+
     ctx.translate(viewTransform.offset.x, viewTransform.offset.y);
     ctx.scale(viewTransform.scale, viewTransform.scale);
 
+    if (clipRect) {
+        ctx.beginPath();
+        ctx.rect(clipRect.x, clipRect.y, clipRect.width, clipRect.height);
+        ctx.clip();
+    }
+
+    // Only items touching the visible part of the world are drawn. The margin
+    // keeps labels and selection handles that stick out of an item's bounds.
+    const margin = 40 / viewTransform.scale;
+    const visibleRect = {
+        x: -viewTransform.offset.x / viewTransform.scale - margin,
+        y: -viewTransform.offset.y / viewTransform.scale - margin,
+        width: width / viewTransform.scale + margin * 2,
+        height: height / viewTransform.scale + margin * 2,
+    };
+    const isVisible = (bounds: Rect | null) => bounds !== null && rectIntersect(bounds, visibleRect);
+    const selectedIds = new Set(selectedImageIds);
+
     // Draw Images
-    const imageMap = new Map(images.map(i => [i.id, i]));
-    const drawImageItem = (id: string) => {
-        const image = imageMap.get(id);
-        if (!image || image.visible === false) return;
+    const drawImageItem = (image: CanvasImage) => {
+        const isSelected = selectedIds.has(image.id);
+        drawImageLayer(ctx, image, !isSelected, lodPixelRatio === undefined ? undefined : viewTransform.scale * lodPixelRatio, clipAnnotationsToImages);
 
+        // Selection chrome is drawn on top, unclipped
         ctx.save();
-        const centerX = image.x + (image.width * image.scale) / 2;
-        const centerY = image.y + (image.height * image.scale) / 2;
-        
-        ctx.translate(centerX, centerY);
-        ctx.rotate(image.rotation * Math.PI / 180);
-        ctx.scale(image.scale, image.scale);
-        
-        // Draw with crop logic
-        const sx = image.cropRect ? image.cropRect.x : 0;
-        const sy = image.cropRect ? image.cropRect.y : 0;
-        const sWidth = image.cropRect ? image.cropRect.width : image.originalWidth;
-        const sHeight = image.cropRect ? image.cropRect.height : image.originalHeight;
-        
-        ctx.drawImage(image.element, sx, sy, sWidth, sHeight, -image.width / 2, -image.height / 2, image.width, image.height);
+        applyImageTransform(ctx, image);
 
         if (dropTargetImageId === image.id) {
             ctx.strokeStyle = '#3b82f6';
@@ -551,20 +793,15 @@ export const drawCanvas = (
             ctx.strokeRect(-image.width / 2, -image.height / 2, image.width, image.height);
         }
 
-        if (selectedImageIds.includes(image.id)) {
+        if (isSelected) {
             ctx.strokeStyle = '#3b82f6'; // blue-500
             ctx.lineWidth = 2 / image.scale;
             ctx.strokeRect(-image.width / 2, -image.height / 2, image.width, image.height);
-        } else if (image.outlineWidth && image.outlineWidth > 0) {
-             ctx.strokeStyle = hexToRgba(image.outlineColor || '#000000', image.outlineOpacity || 1);
-             ctx.lineWidth = image.outlineWidth / image.scale;
-             ctx.strokeRect(-image.width / 2, -image.height / 2, image.width, image.height);
         }
 
         // Annotations
         ctx.translate(-image.width / 2, -image.height / 2);
         image.annotations.forEach(anno => {
-            drawAnnotation(ctx, anno);
             if (selectedAnnotations.some(s => s.annotationId === anno.id && s.imageId === image.id)) {
                  const bounds = getAnnotationPrimitiveBounds(anno, ctx);
                  let cx = 0, cy = 0;
@@ -626,14 +863,18 @@ export const drawCanvas = (
         ctx.restore();
     };
 
-    // Draw all images in order of `images` array (bottom to top)
-    images.forEach(img => drawImageItem(img.id));
+    // Draw images in layer order (bottom to top), skipping hidden images and hidden groups.
+    // Exports clip annotations to their image, so only the frame decides whether one shows there.
+    getRenderableImages(images, groups)
+        .filter(image => drawingAnnotation.imageId === image.id || isVisible(clipAnnotationsToImages ? getImagesBounds([image]) : getImageLayerBounds(image, ctx)))
+        .forEach(drawImageItem);
 
     // Draw Groups Labels/Bounds
+    const groupBounds = showGroupBounds ? getAllGroupBounds(groups, images) : new Map<string, Rect | null>();
     groups.forEach(group => {
-        if (group.visible === false) return;
-        const bounds = getGroupBounds(group, groups, images);
-        if (bounds) {
+        if (!showGroupBounds || group.visible === false) return;
+        const bounds = groupBounds.get(group.id) ?? null;
+        if (bounds && isVisible(bounds)) {
             ctx.save();
             ctx.strokeStyle = selectedLayerId === group.id ? '#3b82f6' : 'rgba(255, 255, 255, 0.3)';
             ctx.lineWidth = 2 / viewTransform.scale;
@@ -664,8 +905,10 @@ export const drawCanvas = (
 
     // Draw Canvas Annotations
     canvasAnnotations.forEach(anno => {
+        const isSelected = selectedAnnotations.some(s => s.annotationId === anno.id && s.imageId === null);
+        if (!isSelected && !isVisible(getAnnotationBounds(anno, ctx))) return;
         drawAnnotation(ctx, anno);
-        if (selectedAnnotations.some(s => s.annotationId === anno.id && s.imageId === null)) {
+        if (isSelected) {
              const bounds = getAnnotationPrimitiveBounds(anno, ctx);
              let cx = 0, cy = 0;
              if (anno.type === 'rect') { cx = anno.x + anno.width/2; cy = anno.y + anno.height/2; }
@@ -722,6 +965,127 @@ export const drawCanvas = (
         drawAnnotation(ctx, drawingAnnotation.annotation);
     }
 
+    // Multi-selection bounds handles
+    if (selectedAnnotations.length > 1) {
+        const multiBounds = getMultiAnnotationBounds(selectedAnnotations, images, canvasAnnotations, ctx);
+        if (multiBounds) {
+            ctx.strokeStyle = '#ef4444';
+            ctx.lineWidth = 1 / viewTransform.scale;
+            ctx.setLineDash([4 / viewTransform.scale, 2 / viewTransform.scale]);
+            ctx.strokeRect(multiBounds.x, multiBounds.y, multiBounds.width, multiBounds.height);
+            ctx.setLineDash([]);
+
+            // Draw Handles
+            const handleSize = 8 / viewTransform.scale;
+            ctx.fillStyle = '#ffffff';
+            // Scale Handle
+            ctx.fillRect(multiBounds.x + multiBounds.width - handleSize/2, multiBounds.y + multiBounds.height - handleSize/2, handleSize, handleSize);
+            // Rotation Handle
+            ctx.fillRect(multiBounds.x + multiBounds.width/2 - handleSize/2, multiBounds.y - 20/viewTransform.scale - handleSize/2, handleSize, handleSize);
+            // Line to rotation handle
+            ctx.beginPath();
+            ctx.moveTo(multiBounds.x + multiBounds.width/2, multiBounds.y);
+            ctx.lineTo(multiBounds.x + multiBounds.width/2, multiBounds.y - 20/viewTransform.scale);
+            ctx.stroke();
+        }
+    }
+
+    ctx.restore();
+};
+
+export const drawCanvas = (
+    ctx: CanvasRenderingContext2D,
+    canvas: HTMLCanvasElement,
+    images: CanvasImage[],
+    selectedImageIds: string[],
+    cropArea: Rect | null,
+    viewTransform: { scale: number; offset: Point },
+    drawingAnnotation: { annotation: Annotation | null, imageId: string | null },
+    selectedAnnotations: { imageId: string | null; annotationId: string }[],
+    marqueeRect: Rect | null,
+    groups: Group[],
+    canvasAnnotations: Annotation[],
+    dropTargetImageId: string | null,
+    selectedLayerId: string | null,
+    exportSlices: ExportSlice[] = [],
+    importPlaceholders: ImportPlaceholder[] = [],
+    pixelRatio = 1
+) => {
+    // Everything below works in CSS pixels; the backing store has `pixelRatio` device pixels per CSS pixel.
+    const { width, height } = canvas.getBoundingClientRect();
+    const backingWidth = Math.round(width * pixelRatio);
+    const backingHeight = Math.round(height * pixelRatio);
+    // Resizing clears and reallocates the backing store, so only do it when the size actually changed.
+    if (canvas.width !== backingWidth || canvas.height !== backingHeight) {
+        canvas.width = backingWidth;
+        canvas.height = backingHeight;
+    }
+    ctx.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+
+    renderScene(ctx, { images, canvasAnnotations, groups }, {
+        viewTransform,
+        viewportSize: { width, height },
+        background: '#1f2937', // gray-800
+        showGroupBounds: true,
+        lodPixelRatio: pixelRatio,
+        selection: { selectedImageIds, selectedAnnotations, selectedLayerId, dropTargetImageId, drawingAnnotation },
+    });
+
+    // Editor overlays
+    ctx.save();
+    ctx.translate(viewTransform.offset.x, viewTransform.offset.y);
+    ctx.scale(viewTransform.scale, viewTransform.scale);
+    const visibleRect = {
+        x: -viewTransform.offset.x / viewTransform.scale,
+        y: -viewTransform.offset.y / viewTransform.scale,
+        width: width / viewTransform.scale,
+        height: height / viewTransform.scale,
+    };
+
+    // Files still decoding during an import: gray dashed cells with the file name.
+    importPlaceholders.forEach(placeholder => {
+        if (!rectIntersect(placeholder.rect, visibleRect)) return;
+        const { x, y, width, height } = placeholder.rect;
+        ctx.fillStyle = 'rgba(55, 65, 81, 0.5)'; // gray-700
+        ctx.fillRect(x, y, width, height);
+        ctx.strokeStyle = '#6b7280'; // gray-500
+        ctx.lineWidth = 1 / viewTransform.scale;
+        ctx.setLineDash([4 / viewTransform.scale, 4 / viewTransform.scale]);
+        ctx.strokeRect(x, y, width, height);
+        ctx.setLineDash([]);
+
+        const fontSize = 11 / viewTransform.scale;
+        ctx.save();
+        ctx.beginPath();
+        ctx.rect(x, y, width, height);
+        ctx.clip();
+        ctx.font = `${fontSize}px sans-serif`;
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        ctx.fillStyle = '#9ca3af'; // gray-400
+        ctx.fillText(placeholder.name, x + width / 2, y + height / 2);
+        ctx.restore();
+    });
+
+    // Export slices: dashed outlines with their name above, kept visually distinct from the crop area.
+    exportSlices.forEach(slice => {
+        const { x, y, width, height } = slice.rect;
+        ctx.strokeStyle = '#f59e0b'; // amber-500
+        ctx.lineWidth = 1.5 / viewTransform.scale;
+        ctx.setLineDash([6 / viewTransform.scale, 4 / viewTransform.scale]);
+        ctx.strokeRect(x, y, width, height);
+        ctx.setLineDash([]);
+
+        const fontSize = 12 / viewTransform.scale;
+        ctx.font = `${fontSize}px sans-serif`;
+        ctx.textBaseline = 'bottom';
+        const labelWidth = ctx.measureText(slice.name).width + fontSize * 0.6;
+        ctx.fillStyle = '#f59e0b';
+        ctx.fillRect(x, y - fontSize * 1.4, labelWidth, fontSize * 1.4);
+        ctx.fillStyle = '#111827'; // gray-900
+        ctx.fillText(slice.name, x + fontSize * 0.3, y - fontSize * 0.2);
+    });
+
     if (cropArea) {
         ctx.fillStyle = 'rgba(0, 0, 0, 0.5)';
         ctx.strokeStyle = '#fff';
@@ -750,30 +1114,105 @@ export const drawCanvas = (
         ctx.strokeRect(marqueeRect.x, marqueeRect.y, marqueeRect.width, marqueeRect.height);
     }
     
-    // Multi-selection bounds handles
-    if (selectedAnnotations.length > 1) {
-        const multiBounds = getMultiAnnotationBounds(selectedAnnotations, images, canvasAnnotations, ctx);
-        if (multiBounds) {
-            ctx.strokeStyle = '#ef4444';
-            ctx.lineWidth = 1 / viewTransform.scale;
-            ctx.setLineDash([4 / viewTransform.scale, 2 / viewTransform.scale]);
-            ctx.strokeRect(multiBounds.x, multiBounds.y, multiBounds.width, multiBounds.height);
-            ctx.setLineDash([]);
+    ctx.restore();
+};
+/**
+ * Calls `onChange` with the new devicePixelRatio whenever it changes, e.g. when
+ * the window moves to a screen with a different density or the page is zoomed.
+ */
+export const watchDevicePixelRatio = (onChange: (pixelRatio: number) => void): (() => void) => {
+    let query: MediaQueryList | null = null;
+    const listen = () => {
+        query = window.matchMedia(`(resolution: ${window.devicePixelRatio}dppx)`);
+        query.addEventListener('change', handleChange, { once: true });
+    };
+    // A resolution query only matches one ratio, so a new one is needed after each change.
+    const handleChange = () => {
+        onChange(window.devicePixelRatio);
+        listen();
+    };
+    listen();
+    return () => query?.removeEventListener('change', handleChange);
+};
 
-            // Draw Handles
-            const handleSize = 8 / viewTransform.scale;
-            ctx.fillStyle = '#ffffff';
-            // Scale Handle
-            ctx.fillRect(multiBounds.x + multiBounds.width - handleSize/2, multiBounds.y + multiBounds.height - handleSize/2, handleSize, handleSize);
-            // Rotation Handle
-            ctx.fillRect(multiBounds.x + multiBounds.width/2 - handleSize/2, multiBounds.y - 20/viewTransform.scale - handleSize/2, handleSize, handleSize);
-            // Line to rotation handle
-            ctx.beginPath();
-            ctx.moveTo(multiBounds.x + multiBounds.width/2, multiBounds.y);
-            ctx.lineTo(multiBounds.x + multiBounds.width/2, multiBounds.y - 20/viewTransform.scale);
-            ctx.stroke();
-        }
+// Bounding box of everything that would be exported: visible images plus canvas annotations.
+export const getExportBounds = (itemsToDraw: CanvasImage[], canvasAnnosToDraw: Annotation[]): Rect | null => {
+    let bounds = getImagesBounds(itemsToDraw);
+    const tempCtx = document.createElement('canvas').getContext('2d');
+    if (tempCtx) {
+        canvasAnnosToDraw.forEach(anno => {
+            const b = getAnnotationBounds(anno, tempCtx);
+            if (!bounds) bounds = b;
+            else {
+                const minX = Math.min(bounds.x, b.x);
+                const minY = Math.min(bounds.y, b.y);
+                const maxX = Math.max(bounds.x + bounds.width, b.x + b.width);
+                const maxY = Math.max(bounds.y + bounds.height, b.y + b.height);
+                bounds = { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+            }
+        });
     }
+    return bounds;
+};
 
-    ctx.restore();
-}
\ No newline at end of file
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+    scale: 1,
+    padding: 0,
+    transparentBackground: false,
+    backgroundColor: '#1f2937',
+    quality: 0.92,
+    keepMetadata: false,
+};
+
+export const padRect = (rect: Rect, padding: number): Rect => ({
+    x: rect.x - padding,
+    y: rect.y - padding,
+    width: rect.width + padding * 2,
+    height: rect.height + padding * 2,
+});
+
+/**
+ * Renders images and canvas annotations into a new offscreen canvas sized to
+ * `bounds` (or to the content itself when no bounds are given), applying the
+ * export scale, padding and background. With `clipToBounds`, content outside
+ * the bounds is cut off instead of spilling into the padding. Await
+ * prepareProcessedSources for the images first to get their exact processed pixels.
+ */
+export const renderToOffscreenCanvas = (
+    itemsToDraw: CanvasImage[],
+    canvasAnnosToDraw: Annotation[],
+    groups: Group[],
+    specificBounds: Rect | null,
+    options: ExportOptions = DEFAULT_EXPORT_OPTIONS,
+    clipToBounds = false
+): HTMLCanvasElement | null => {
+    const renderableImages = getRenderableImages(itemsToDraw, groups);
+    const contentBounds = specificBounds ?? getExportBounds(renderableImages, canvasAnnosToDraw);
+    if (!contentBounds) return null;
+    const bounds = padRect(contentBounds, options.padding);
+
+    const offscreenCanvas = document.createElement('canvas');
+    offscreenCanvas.width = Math.max(1, Math.round(bounds.width * options.scale));
+    offscreenCanvas.height = Math.max(1, Math.round(bounds.height * options.scale));
+    const ctx = offscreenCanvas.getContext('2d');
+    if (!ctx) return null;
+
+    renderScene(ctx, { images: renderableImages, canvasAnnotations: canvasAnnosToDraw, groups }, {
+        viewTransform: { scale: options.scale, offset: { x: -bounds.x * options.scale, y: -bounds.y * options.scale } },
+        viewportSize: { width: offscreenCanvas.width, height: offscreenCanvas.height },
+        background: options.transparentBackground ? null : options.backgroundColor,
+        clipRect: clipToBounds ? contentBounds : null,
+        clipAnnotationsToImages: true,
+    });
+
+    return offscreenCanvas;
+};
+
+// Renders the board straight at thumbnail size, so a large board never needs a full-size canvas.
+export const createThumbnailDataUrl = (images: CanvasImage[], canvasAnnotations: Annotation[], groups: Group[], maxSize = 256): string | null => {
+    const bounds = getExportBounds(getRenderableImages(images, groups), canvasAnnotations);
+    if (!bounds) return null;
+    const scale = Math.min(1, maxSize / Math.max(bounds.width, bounds.height));
+    const thumb = renderToOffscreenCanvas(images, canvasAnnotations, groups, bounds, { ...DEFAULT_EXPORT_OPTIONS, scale });
+    return thumb ? thumb.toDataURL('image/jpeg', 0.8) : null;
+};
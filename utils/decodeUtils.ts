@@ -0,0 +1,55 @@
+import { ImageMetadata } from '../types';
+import { readExif } from './exifUtils';
+import { readPngText, PNG_PROJECT_KEYWORD } from './pngUtils';
+
+export interface ImageFileInfo {
+  metadata: ImageMetadata | null;
+  embeddedProject: string | null; // Project JSON from an editable PNG
+}
+
+export interface DecodedImageFile extends ImageFileInfo {
+  bitmap: ImageBitmap | null; // Null for formats createImageBitmap can't decode, e.g. SVG
+}
+
+export type DecodeRequest = { id: number; file: Blob };
+export type DecodeResponse = { id: number; result: DecodedImageFile } | { id: number; error: string };
+
+// The EXIF segment sits at the start of a JPEG and is limited to 64 KB.
+const HEADER_BYTES = 65536;
+
+const isPngHeader = (bytes: Uint8Array): boolean =>
+  bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47;
+
+/**
+ * Reads the EXIF metadata of a JPEG, or the project embedded in a PNG, without
+ * decoding any pixels. Only the head of the file is read, plus the chunk headers
+ * of a PNG.
+ */
+export const readImageFileInfo = async (file: Blob): Promise<ImageFileInfo> => {
+  const header = await file.slice(0, HEADER_BYTES).arrayBuffer();
+  if (isPngHeader(new Uint8Array(header))) {
+    const embeddedProject = await readPngText(file, PNG_PROJECT_KEYWORD).catch(() => null);
+    return { metadata: null, embeddedProject };
+  }
+  let metadata: ImageMetadata | null = null;
+  try {
+    metadata = readExif(header);
+  } catch {
+    // Unreadable EXIF data only means the image has no metadata.
+  }
+  return { metadata, embeddedProject: null };
+};
+
+/**
+ * Decodes an image file with createImageBitmap and reads its file info alongside.
+ * Uses only APIs that are also available in workers, so the same code runs in
+ * the decode worker and, as a fallback, on the main thread.
+ */
+export const decodeImageFile = async (file: Blob): Promise<DecodedImageFile> => {
+  const [info, bitmap] = await Promise.all([
+    readImageFileInfo(file),
+    // The browser applies the EXIF orientation here, as it does for <img> elements.
+    createImageBitmap(file, { imageOrientation: 'from-image' }).catch(() => null),
+  ]);
+  return { ...info, bitmap };
+};
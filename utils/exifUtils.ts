@@ -0,0 +1,268 @@
+import { ImageMetadata } from '../types';
+import { addPngChunk } from './pngUtils';
+
+// TIFF tags used for reading and writing. See the EXIF 2.32 specification.
+const TAG_MAKE = 0x010f;
+const TAG_MODEL = 0x0110;
+const TAG_ORIENTATION = 0x0112;
+const TAG_DATE_TIME = 0x0132;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+const TAG_LENS_MODEL = 0xa434;
+const TAG_GPS_LATITUDE_REF = 0x0001;
+const TAG_GPS_LATITUDE = 0x0002;
+const TAG_GPS_LONGITUDE_REF = 0x0003;
+const TAG_GPS_LONGITUDE = 0x0004;
+const TAG_GPS_ALTITUDE_REF = 0x0005;
+const TAG_GPS_ALTITUDE = 0x0006;
+
+const TYPE_BYTE = 1;
+const TYPE_ASCII = 2;
+const TYPE_SHORT = 3;
+const TYPE_LONG = 4;
+const TYPE_RATIONAL = 5;
+
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+const EXIF_HEADER = [0x45, 0x78, 0x69, 0x66, 0, 0]; // "Exif\0\0"
+
+type TagValue = string | number[];
+
+const readIfd = (view: DataView, offset: number, little: boolean): Map<number, TagValue> => {
+  const tags = new Map<number, TagValue>();
+  if (offset <= 0 || offset + 2 > view.byteLength) return tags;
+  const count = view.getUint16(offset, little);
+  for (let i = 0; i < count; i++) {
+    const entry = offset + 2 + i * 12;
+    if (entry + 12 > view.byteLength) break;
+    const tag = view.getUint16(entry, little);
+    const type = view.getUint16(entry + 2, little);
+    const n = view.getUint32(entry + 4, little);
+    const size = (TYPE_SIZES[type] ?? 0) * n;
+    if (size === 0) continue;
+    const at = size <= 4 ? entry + 8 : view.getUint32(entry + 8, little);
+    if (at + size > view.byteLength) continue;
+
+    if (type === TYPE_ASCII) {
+      let text = '';
+      for (let j = 0; j < n; j++) {
+        const code = view.getUint8(at + j);
+        if (code === 0) break;
+        text += String.fromCharCode(code);
+      }
+      tags.set(tag, text.trim());
+    } else {
+      const values: number[] = [];
+      for (let j = 0; j < n; j++) {
+        switch (type) {
+          case TYPE_SHORT: values.push(view.getUint16(at + j * 2, little)); break;
+          case TYPE_LONG: values.push(view.getUint32(at + j * 4, little)); break;
+          case 9: values.push(view.getInt32(at + j * 4, little)); break;
+          case TYPE_RATIONAL: {
+            const den = view.getUint32(at + j * 8 + 4, little);
+            values.push(den ? view.getUint32(at + j * 8, little) / den : 0);
+            break;
+          }
+          case 10: {
+            const den = view.getInt32(at + j * 8 + 4, little);
+            values.push(den ? view.getInt32(at + j * 8, little) / den : 0);
+            break;
+          }
+          default: values.push(view.getUint8(at + j));
+        }
+      }
+      tags.set(tag, values);
+    }
+  }
+  return tags;
+};
+
+const text = (value: TagValue | undefined): string | undefined => (typeof value === 'string' && value ? value : undefined);
+const num = (value: TagValue | undefined): number | undefined => (Array.isArray(value) && value.length > 0 ? value[0] : undefined);
+
+// "2024:05:17 14:03:22" -> "2024-05-17T14:03:22"
+const parseExifDate = (value: string | undefined): string | undefined => {
+  const match = value?.match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}T${match[4]}:${match[5]}:${match[6]}` : undefined;
+};
+
+const parseCoordinate = (value: TagValue | undefined, ref: TagValue | undefined): number | undefined => {
+  if (!Array.isArray(value) || value.length < 3) return undefined;
+  const degrees = value[0] + value[1] / 60 + value[2] / 3600;
+  return ref === 'S' || ref === 'W' ? -degrees : degrees;
+};
+
+// Returns the offset of the TIFF header inside the JPEG's APP1 Exif segment.
+const findTiffOffset = (bytes: Uint8Array): number | null => {
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) return null;
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    if (marker === 0xda || marker === 0xd9) break; // Image data starts, no more metadata
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    if (marker === 0xe1 && EXIF_HEADER.every((b, i) => bytes[offset + 4 + i] === b)) return offset + 10;
+    offset += 2 + length;
+  }
+  return null;
+};
+
+/**
+ * Reads the photo metadata of a JPEG; files without EXIF data, and other formats,
+ * have none. The orientation is left out: the browser applies it when decoding
+ * (image-orientation: from-image), and the EXIF written on export resets it to 1.
+ */
+export const readExif = (buffer: ArrayBuffer): ImageMetadata | null => {
+  const bytes = new Uint8Array(buffer);
+  const tiff = findTiffOffset(bytes);
+  if (tiff === null) return null;
+
+  const view = new DataView(buffer, tiff);
+  const little = view.getUint16(0) === 0x4949; // "II"
+  const ifd0 = readIfd(view, view.getUint32(4, little), little);
+  const exif = readIfd(view, num(ifd0.get(TAG_EXIF_IFD)) ?? 0, little);
+  const gps = readIfd(view, num(ifd0.get(TAG_GPS_IFD)) ?? 0, little);
+
+  const altitude = num(gps.get(TAG_GPS_ALTITUDE));
+  const metadata: ImageMetadata = {
+    make: text(ifd0.get(TAG_MAKE)),
+    model: text(ifd0.get(TAG_MODEL)),
+    lensModel: text(exif.get(TAG_LENS_MODEL)),
+    dateTaken: parseExifDate(text(exif.get(TAG_DATE_TIME_ORIGINAL)) ?? text(ifd0.get(TAG_DATE_TIME))),
+    latitude: parseCoordinate(gps.get(TAG_GPS_LATITUDE), gps.get(TAG_GPS_LATITUDE_REF)),
+    longitude: parseCoordinate(gps.get(TAG_GPS_LONGITUDE), gps.get(TAG_GPS_LONGITUDE_REF)),
+    altitude: altitude !== undefined && num(gps.get(TAG_GPS_ALTITUDE_REF)) === 1 ? -altitude : altitude,
+  };
+  const defined = Object.fromEntries(Object.entries(metadata).filter(([, v]) => v !== undefined)) as ImageMetadata;
+  return Object.keys(defined).length > 0 ? defined : null;
+};
+
+interface IfdEntry {
+  tag: number;
+  type: number;
+  value: TagValue;
+}
+
+const ascii = (tag: number, value: string): IfdEntry => ({ tag, type: TYPE_ASCII, value });
+
+// Degrees as degree/minute/second rationals, with 1/1000 second precision.
+const dms = (degrees: number): number[] => {
+  const abs = Math.abs(degrees);
+  const d = Math.floor(abs);
+  const m = Math.floor((abs - d) * 60);
+  const s = Math.round(((abs - d) * 60 - m) * 60 * 1000);
+  return [d, 1, m, 1, s, 1000];
+};
+
+const entrySize = (entry: IfdEntry): number =>
+  entry.type === TYPE_ASCII ? (entry.value as string).length + 1 : (entry.value as number[]).length * (entry.type === TYPE_RATIONAL ? 4 : TYPE_SIZES[entry.type]);
+
+const ifdSize = (entries: IfdEntry[]): number =>
+  2 + entries.length * 12 + 4 + entries.reduce((sum, e) => { const size = entrySize(e); return sum + (size > 4 ? size + (size % 2) : 0); }, 0);
+
+// Writes one IFD at `offset` with its out-of-line values right after it. Rationals are given as flat [numerator, denominator] pairs.
+const writeIfd = (view: DataView, offset: number, entries: IfdEntry[]) => {
+  const sorted = [...entries].sort((a, b) => a.tag - b.tag);
+  view.setUint16(offset, sorted.length, true);
+  let dataOffset = offset + 2 + sorted.length * 12 + 4;
+  sorted.forEach((entry, i) => {
+    const at = offset + 2 + i * 12;
+    const size = entrySize(entry);
+    const count = entry.type === TYPE_ASCII ? size : entry.type === TYPE_RATIONAL ? (entry.value as number[]).length / 2 : (entry.value as number[]).length;
+    view.setUint16(at, entry.tag, true);
+    view.setUint16(at + 2, entry.type, true);
+    view.setUint32(at + 4, count, true);
+    let target = at + 8;
+    if (size > 4) {
+      view.setUint32(at + 8, dataOffset, true);
+      target = dataOffset;
+      dataOffset += size + (size % 2);
+    }
+    if (entry.type === TYPE_ASCII) {
+      const value = entry.value as string;
+      for (let j = 0; j < value.length; j++) view.setUint8(target + j, value.charCodeAt(j) & 0xff);
+      view.setUint8(target + value.length, 0);
+    } else {
+      (entry.value as number[]).forEach((v, j) => {
+        if (entry.type === TYPE_BYTE) view.setUint8(target + j, v);
+        else if (entry.type === TYPE_SHORT) view.setUint16(target + j * 2, v, true);
+        else view.setUint32(target + j * 4, Math.round(v), true);
+      });
+    }
+  });
+  view.setUint32(offset + 2 + sorted.length * 12, 0, true); // No next IFD
+};
+
+/**
+ * Encodes metadata as a little-endian TIFF block, the payload of both the JPEG
+ * APP1 Exif segment and the PNG eXIf chunk. Orientation is always upright
+ * because exported pixels are already rotated.
+ */
+export const createExifBlock = (metadata: ImageMetadata): Uint8Array => {
+  const toExifDate = (iso: string) => iso.replace(/^(\d{4})-(\d{2})-(\d{2})T/, '$1:$2:$3 ').slice(0, 19);
+
+  const ifd0: IfdEntry[] = [{ tag: TAG_ORIENTATION, type: TYPE_SHORT, value: [1] }];
+  if (metadata.make) ifd0.push(ascii(TAG_MAKE, metadata.make));
+  if (metadata.model) ifd0.push(ascii(TAG_MODEL, metadata.model));
+  if (metadata.dateTaken) ifd0.push(ascii(TAG_DATE_TIME, toExifDate(metadata.dateTaken)));
+
+  const exif: IfdEntry[] = [];
+  if (metadata.dateTaken) exif.push(ascii(TAG_DATE_TIME_ORIGINAL, toExifDate(metadata.dateTaken)));
+  if (metadata.lensModel) exif.push(ascii(TAG_LENS_MODEL, metadata.lensModel));
+
+  const gps: IfdEntry[] = [];
+  if (metadata.latitude !== undefined && metadata.longitude !== undefined) {
+    gps.push(
+      ascii(TAG_GPS_LATITUDE_REF, metadata.latitude < 0 ? 'S' : 'N'),
+      { tag: TAG_GPS_LATITUDE, type: TYPE_RATIONAL, value: dms(metadata.latitude) },
+      ascii(TAG_GPS_LONGITUDE_REF, metadata.longitude < 0 ? 'W' : 'E'),
+      { tag: TAG_GPS_LONGITUDE, type: TYPE_RATIONAL, value: dms(metadata.longitude) },
+    );
+  }
+  if (metadata.altitude !== undefined) {
+    gps.push(
+      { tag: TAG_GPS_ALTITUDE_REF, type: TYPE_BYTE, value: [metadata.altitude < 0 ? 1 : 0] },
+      { tag: TAG_GPS_ALTITUDE, type: TYPE_RATIONAL, value: [Math.round(Math.abs(metadata.altitude) * 100), 100] },
+    );
+  }
+
+  // Pointer values don't change the IFD sizes, so lay out first and fill them in after.
+  const exifPointer: IfdEntry = { tag: TAG_EXIF_IFD, type: TYPE_LONG, value: [0] };
+  const gpsPointer: IfdEntry = { tag: TAG_GPS_IFD, type: TYPE_LONG, value: [0] };
+  if (exif.length > 0) ifd0.push(exifPointer);
+  if (gps.length > 0) ifd0.push(gpsPointer);
+  const exifOffset = 8 + ifdSize(ifd0);
+  const gpsOffset = exifOffset + (exif.length > 0 ? ifdSize(exif) : 0);
+  exifPointer.value = [exifOffset];
+  gpsPointer.value = [gpsOffset];
+
+  const bytes = new Uint8Array(gpsOffset + (gps.length > 0 ? ifdSize(gps) : 0));
+  const view = new DataView(bytes.buffer);
+  bytes.set([0x49, 0x49, 0x2a, 0x00]); // "II", 42
+  view.setUint32(4, 8, true);
+  writeIfd(view, 8, ifd0);
+  if (exif.length > 0) writeIfd(view, exifOffset, exif);
+  if (gps.length > 0) writeIfd(view, gpsOffset, gps);
+  return bytes;
+};
+
+/**
+ * Writes metadata into an encoded JPEG or PNG. Other formats are returned unchanged.
+ */
+export const embedExifMetadata = async (blob: Blob, metadata: ImageMetadata): Promise<Blob> => {
+  const tiff = createExifBlock(metadata);
+  if (blob.type === 'image/png') return addPngChunk(blob, 'eXIf', tiff);
+  if (blob.type !== 'image/jpeg') return blob;
+
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) return blob;
+  const segmentLength = 2 + EXIF_HEADER.length + tiff.length;
+  if (segmentLength > 0xffff) return blob;
+  const segment = new Uint8Array(2 + segmentLength);
+  segment.set([0xff, 0xe1, segmentLength >> 8, segmentLength & 0xff, ...EXIF_HEADER]);
+  segment.set(tiff, 4 + EXIF_HEADER.length);
+
+  // Keep a JFIF APP0 segment first, as its specification requires.
+  const insertAt = bytes[2] === 0xff && bytes[3] === 0xe0 ? 4 + ((bytes[4] << 8) | bytes[5]) : 2;
+  return new Blob([bytes.subarray(0, insertAt), segment, bytes.subarray(insertAt)], { type: 'image/jpeg' });
+};
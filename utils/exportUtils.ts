@@ -0,0 +1,64 @@
+import { CanvasImage, Annotation, Group, Rect, ExportFormat, ExportOptions, ExportPreset } from '../types';
+import { renderToOffscreenCanvas, getRenderableImages } from './canvasUtils';
+import { prepareProcessedSources } from './imageProcessingUtils';
+import { createSvgDocument } from './svgUtils';
+import { canvasToBlob } from './fileUtils';
+import { embedExifMetadata } from './exifUtils';
+
+const PRESETS_STORAGE_KEY = 'canvas-image-pro:export-presets';
+
+export const getExportFileExtension = (format: ExportFormat): string => (format === 'jpeg' ? 'jpg' : format);
+
+export const sanitizeFileName = (name: string): string =>
+  name.replace(/[\\/:*?"<>|\x00-\x1f]/g, '_').trim() || 'untitled';
+
+// JPEG has no alpha channel, so a transparent background falls back to the chosen color.
+export const getEffectiveExportOptions = (format: ExportFormat, options: ExportOptions): ExportOptions =>
+  format === 'jpeg' ? { ...options, transparentBackground: false } : options;
+
+/**
+ * Renders images and canvas annotations to an encoded file in the given format.
+ * With `clipToBounds`, anything outside `bounds` is cut off. When metadata is
+ * kept, JPEG and PNG files get the EXIF data of the lowest image that has any.
+ */
+export const renderToBlob = async (
+  itemsToDraw: CanvasImage[],
+  canvasAnnosToDraw: Annotation[],
+  groups: Group[],
+  bounds: Rect | null,
+  format: ExportFormat,
+  options: ExportOptions,
+  clipToBounds = false
+): Promise<Blob | null> => {
+  const effectiveOptions = getEffectiveExportOptions(format, options);
+  await prepareProcessedSources(getRenderableImages(itemsToDraw, groups));
+  if (format === 'svg') {
+    const svg = await createSvgDocument(itemsToDraw, canvasAnnosToDraw, groups, bounds, effectiveOptions, clipToBounds);
+    return svg ? new Blob([svg], { type: 'image/svg+xml' }) : null;
+  }
+  const rendered = renderToOffscreenCanvas(itemsToDraw, canvasAnnosToDraw, groups, bounds, effectiveOptions, clipToBounds);
+  if (!rendered) return null;
+  const blob = await canvasToBlob(rendered, `image/${format}`, effectiveOptions.quality);
+  const metadata = effectiveOptions.keepMetadata ? itemsToDraw.find(img => img.metadata)?.metadata : undefined;
+  return metadata ? embedExifMetadata(blob, metadata) : blob;
+};
+
+// Presets are a per-browser preference, so they live in localStorage rather than in projects.
+export const loadExportPresets = (): ExportPreset[] => {
+  try {
+    const stored = localStorage.getItem(PRESETS_STORAGE_KEY);
+    const parsed = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    // Unreadable presets are dropped rather than blocking the export dialog.
+    return [];
+  }
+};
+
+export const saveExportPresets = (presets: ExportPreset[]) => {
+  try {
+    localStorage.setItem(PRESETS_STORAGE_KEY, JSON.stringify(presets));
+  } catch {
+    // Without storage the presets still last for this session.
+  }
+};
@@ -1,41 +1,144 @@
 
 import { CanvasImage } from '../types';
+import { decodeImageFile, DecodedImageFile, DecodeRequest, DecodeResponse } from './decodeUtils';
 
-export const readImageFile = (file: File): Promise<CanvasImage> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      const img = new Image();
-      img.onload = () => {
-        const newImage: CanvasImage = {
-          id: `img-${Date.now()}-${Math.random()}`,
-          name: file.name,
-          element: img,
-          x: 100, // Default position
-          y: 100,
-          width: img.width,
-          height: img.height,
-          originalWidth: img.width,
-          originalHeight: img.height,
-          cropRect: null,
-          scale: 1.0,
-          rotation: 0,
-          annotations: [],
-          createdAt: new Date(),
-          outlineColor: '#000000',
-          outlineWidth: 0,
-          outlineOpacity: 1,
-        };
-        resolve(newImage);
-      };
-      img.onerror = reject;
-      img.src = e.target?.result as string;
+// Decodes imports off the main thread. Created on first use; null once workers turned out to be unavailable.
+let decodeWorker: Worker | null | undefined;
+let nextDecodeId = 0;
+const pendingDecodes = new Map<number, { file: Blob; resolve: (result: DecodedImageFile) => void; reject: (error: Error) => void }>();
+
+const getDecodeWorker = (): Worker | null => {
+  if (decodeWorker !== undefined) return decodeWorker;
+  try {
+    const worker = new Worker(new URL('../workers/imageDecodeWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = ({ data }: MessageEvent<DecodeResponse>) => {
+      const pending = pendingDecodes.get(data.id);
+      if (!pending) return;
+      pendingDecodes.delete(data.id);
+      if ('error' in data) pending.reject(new Error(data.error));
+      else pending.resolve(data.result);
     };
-    reader.onerror = reject;
-    reader.readAsDataURL(file);
+    // The worker script failed to load: finish everything on the main thread instead.
+    worker.onerror = (event) => {
+      event.preventDefault();
+      worker.terminate();
+      decodeWorker = null;
+      pendingDecodes.forEach(({ file, resolve, reject }) => decodeImageFile(file).then(resolve, reject));
+      pendingDecodes.clear();
+    };
+    decodeWorker = worker;
+  } catch {
+    decodeWorker = null;
+  }
+  return decodeWorker;
+};
+
+const decodeInWorker = (file: Blob): Promise<DecodedImageFile> => {
+  const worker = getDecodeWorker();
+  if (!worker) return decodeImageFile(file);
+  const id = nextDecodeId++;
+  return new Promise((resolve, reject) => {
+    pendingDecodes.set(id, { file, resolve, reject });
+    worker.postMessage({ id, file } satisfies DecodeRequest);
   });
 };
 
+// Source files of images loaded through object URLs, so saving can store the original bytes.
+const sourceBlobs = new WeakMap<HTMLImageElement, Blob>();
+// Pixels decoded by the worker for imported elements, which then never decode on the main thread.
+const decodedBitmaps = new WeakMap<HTMLImageElement, ImageBitmap>();
+
+export const getImageSourceBlob = (element: HTMLImageElement): Blob | undefined => sourceBlobs.get(element);
+
+// The pixels to draw for an element: its bitmap decoded on import, or the element itself.
+export const getElementPixels = (element: HTMLImageElement): HTMLImageElement | ImageBitmap => decodedBitmaps.get(element) ?? element;
+
+export const hasElementPixels = (element: HTMLImageElement): boolean =>
+  decodedBitmaps.has(element) || (element.complete && element.naturalWidth > 0);
+
+/**
+ * Loads a blob into an image element through an object URL, which avoids building
+ * a base64 copy of the file. The URL stays valid for the session because undo
+ * can bring removed images back. With a `bitmap` already decoded from the blob
+ * the element is drawn from that; otherwise it is decoded with decode().
+ */
+export const createImageElementFromBlob = async (blob: Blob, bitmap?: ImageBitmap | null): Promise<HTMLImageElement> => {
+  const img = new Image();
+  img.src = URL.createObjectURL(blob);
+  if (bitmap) {
+    decodedBitmaps.set(img, bitmap);
+  } else {
+    try {
+      await img.decode();
+    } catch {
+      URL.revokeObjectURL(img.src);
+      throw new Error('The file could not be decoded as an image.');
+    }
+  }
+  sourceBlobs.set(img, blob);
+  return img;
+};
+
+// Frees an element that was never added to the canvas.
+const releaseImageElement = (element: HTMLImageElement) => {
+  URL.revokeObjectURL(element.src);
+  decodedBitmaps.get(element)?.close();
+  decodedBitmaps.delete(element);
+};
+
+/**
+ * Decodes an image file in a worker (upright, with EXIF metadata) and wraps it
+ * as a new canvas image, along with the project of an editable PNG if there is one.
+ * Formats the worker can't decode fall back to the image element's decode().
+ * Rejects with the signal's reason when `signal` fires first; the element still
+ * being loaded then is released once it is ready.
+ */
+export const importImageFile = async (file: File, signal?: AbortSignal): Promise<{ image: CanvasImage; embeddedProject: string | null }> => {
+  const load = async () => {
+    const decoded = await decodeInWorker(file).catch(() => null);
+    const element = await createImageElementFromBlob(file, decoded?.bitmap);
+    return { decoded, element };
+  };
+
+  signal?.throwIfAborted();
+  const loading = load();
+  const { decoded, element: img } = await (!signal ? loading : new Promise<Awaited<typeof loading>>((resolve, reject) => {
+    const onAbort = () => {
+      reject(signal.reason);
+      loading.then(({ element }) => releaseImageElement(element), () => {});
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+    loading.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  }));
+  const pixels = getElementPixels(img);
+  const width = pixels instanceof HTMLImageElement ? pixels.naturalWidth : pixels.width;
+  const height = pixels instanceof HTMLImageElement ? pixels.naturalHeight : pixels.height;
+  const image: CanvasImage = {
+    id: `img-${Date.now()}-${Math.random()}`,
+    name: file.name,
+    element: img,
+    x: 100, // Default position
+    y: 100,
+    width,
+    height,
+    originalWidth: width,
+    originalHeight: height,
+    cropRect: null,
+    scale: 1.0,
+    rotation: 0,
+    annotations: [],
+    createdAt: new Date(),
+    outlineColor: '#000000',
+    outlineWidth: 0,
+    outlineOpacity: 1,
+    ...(decoded?.metadata ? { metadata: decoded.metadata } : {}),
+  };
+  return { image, embeddedProject: decoded?.embeddedProject ?? null };
+};
+
+export const readImageFile = async (file: File, signal?: AbortSignal): Promise<CanvasImage> =>
+  (await importImageFile(file, signal)).image;
+
 export const downloadDataUrl = (dataUrl: string, filename: string) => {
   const link = document.createElement('a');
   link.href = dataUrl;
@@ -52,4 +155,25 @@ export const createImageElementFromDataUrl = (dataUrl: string): Promise<HTMLImag
     img.onerror = reject;
     img.src = dataUrl;
   });
-};
\ No newline at end of file
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  downloadDataUrl(url, filename);
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const blobToDataUrl = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = reject;
+    reader.readAsDataURL(blob);
+  });
+};
+
+export const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Could not encode the canvas.')), type, quality);
+  });
+};
@@ -0,0 +1,135 @@
+import { FilterType, ImageFilter } from '../types';
+
+export const FILTER_DEFINITIONS: Record<FilterType, { label: string; amountLabel: string; min: number; max: number; step: number; defaultAmount: number; unit?: string }> = {
+  blur: { label: 'Blur', amountLabel: 'Radius', min: 1, max: 50, step: 1, defaultAmount: 4, unit: 'px' },
+  sharpen: { label: 'Sharpen', amountLabel: 'Amount', min: 10, max: 300, step: 10, defaultAmount: 100, unit: '%' },
+  grayscale: { label: 'Grayscale', amountLabel: 'Amount', min: 0, max: 100, step: 1, defaultAmount: 100, unit: '%' },
+  sepia: { label: 'Sepia', amountLabel: 'Amount', min: 0, max: 100, step: 1, defaultAmount: 100, unit: '%' },
+  invert: { label: 'Invert', amountLabel: 'Amount', min: 0, max: 100, step: 1, defaultAmount: 100, unit: '%' },
+  pixelate: { label: 'Pixelate', amountLabel: 'Block Size', min: 2, max: 100, step: 1, defaultAmount: 10, unit: 'px' },
+};
+
+export const createFilter = (type: FilterType, amount = FILTER_DEFINITIONS[type].defaultAmount): ImageFilter => ({
+  id: `filter-${Date.now()}-${Math.random()}`,
+  type,
+  amount,
+  enabled: true,
+});
+
+export const getActiveFilters = (filters: ImageFilter[] = []): ImageFilter[] => filters.filter(f => f.enabled);
+
+// Pixels with their dimensions; ImageData satisfies this, in workers as well.
+export interface PixelBuffer {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+// One horizontal then one vertical running-sum pass. Three of these approximate a Gaussian.
+const boxBlurPass = (src: Uint8ClampedArray, width: number, height: number, radius: number): Uint8ClampedArray => {
+  const tmp = new Uint8ClampedArray(src.length);
+  const out = new Uint8ClampedArray(src.length);
+  const size = radius * 2 + 1;
+
+  const blurLine = (input: Uint8ClampedArray, output: Uint8ClampedArray, start: number, stride: number, length: number) => {
+    for (let channel = 0; channel < 4; channel++) {
+      const at = (i: number) => input[start + Math.min(length - 1, Math.max(0, i)) * stride + channel];
+      let sum = 0;
+      for (let i = -radius; i <= radius; i++) sum += at(i);
+      for (let i = 0; i < length; i++) {
+        output[start + i * stride + channel] = sum / size;
+        sum += at(i + radius + 1) - at(i - radius);
+      }
+    }
+  };
+
+  for (let y = 0; y < height; y++) blurLine(src, tmp, y * width * 4, 4, width);
+  for (let x = 0; x < width; x++) blurLine(tmp, out, x * 4, width * 4, height);
+  return out;
+};
+
+const gaussianBlur = (data: Uint8ClampedArray, width: number, height: number, radius: number): Uint8ClampedArray => {
+  const boxRadius = Math.max(1, Math.round(radius / 3));
+  let result = data;
+  for (let pass = 0; pass < 3; pass++) result = boxBlurPass(result, width, height, boxRadius);
+  return result;
+};
+
+// Blends every pixel towards `fn(r, g, b)` by `mix` (0..1).
+const mapColors = (data: Uint8ClampedArray, mix: number, fn: (r: number, g: number, b: number) => [number, number, number]) => {
+  for (let i = 0; i < data.length; i += 4) {
+    const r = data[i], g = data[i + 1], b = data[i + 2];
+    const [nr, ng, nb] = fn(r, g, b);
+    data[i] = r + (nr - r) * mix;
+    data[i + 1] = g + (ng - g) * mix;
+    data[i + 2] = b + (nb - b) * mix;
+  }
+};
+
+const applyFilter = ({ data, width, height }: PixelBuffer, { type, amount }: ImageFilter, scale: number) => {
+  switch (type) {
+    case 'blur':
+      data.set(gaussianBlur(data, width, height, Math.max(1, amount * scale)));
+      break;
+    case 'sharpen': {
+      // Unsharp mask: push every pixel away from its blurred neighbourhood.
+      const blurred = gaussianBlur(data, width, height, Math.max(1, 2 * scale));
+      const strength = amount / 100;
+      for (let i = 0; i < data.length; i += 4) {
+        data[i] += (data[i] - blurred[i]) * strength;
+        data[i + 1] += (data[i + 1] - blurred[i + 1]) * strength;
+        data[i + 2] += (data[i + 2] - blurred[i + 2]) * strength;
+      }
+      break;
+    }
+    case 'grayscale':
+      mapColors(data, amount / 100, (r, g, b) => {
+        const l = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+        return [l, l, l];
+      });
+      break;
+    case 'sepia':
+      mapColors(data, amount / 100, (r, g, b) => [
+        0.393 * r + 0.769 * g + 0.189 * b,
+        0.349 * r + 0.686 * g + 0.168 * b,
+        0.272 * r + 0.534 * g + 0.131 * b,
+      ]);
+      break;
+    case 'invert':
+      mapColors(data, amount / 100, (r, g, b) => [255 - r, 255 - g, 255 - b]);
+      break;
+    case 'pixelate': {
+      const block = Math.max(1, Math.round(amount * scale));
+      for (let by = 0; by < height; by += block) {
+        for (let bx = 0; bx < width; bx += block) {
+          const maxX = Math.min(width, bx + block);
+          const maxY = Math.min(height, by + block);
+          const sums = [0, 0, 0, 0];
+          for (let y = by; y < maxY; y++) {
+            for (let x = bx; x < maxX; x++) {
+              const i = (y * width + x) * 4;
+              for (let c = 0; c < 4; c++) sums[c] += data[i + c];
+            }
+          }
+          const count = (maxX - bx) * (maxY - by);
+          for (let y = by; y < maxY; y++) {
+            for (let x = bx; x < maxX; x++) {
+              const i = (y * width + x) * 4;
+              for (let c = 0; c < 4; c++) data[i + c] = sums[c] / count;
+            }
+          }
+        }
+      }
+      break;
+    }
+  }
+};
+
+/**
+ * Applies the enabled filters in order, in place. Sizes such as the blur radius
+ * are in source pixels and multiplied by `scale`, so a downscaled preview looks
+ * like the full-size result.
+ */
+export const applyFilters = (pixels: PixelBuffer, filters: ImageFilter[], scale = 1) => {
+  getActiveFilters(filters).forEach(filter => applyFilter(pixels, filter, scale));
+};
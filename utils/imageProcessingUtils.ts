@@ -0,0 +1,204 @@
+import { CanvasImage } from '../types';
+import { getPipelineKey, processPixels, ProcessRequest, ProcessResponse } from './pixelPipelineUtils';
+import { canvasToBlob, getElementPixels, hasElementPixels } from './fileUtils';
+import { applyAdjustments } from './adjustmentUtils';
+import { computeHistogram, Histogram } from './toneCurveUtils';
+
+// The pixels drawn for an image: its element, or the result of its adjustments, tone curve and filters.
+export type ImagePixels = HTMLImageElement | HTMLCanvasElement | ImageBitmap;
+type ProcessedPixels = HTMLCanvasElement | ImageBitmap;
+
+// A few recent variants are kept per image, so undo and toggling a filter don't wait for the worker.
+const MAX_CACHED_VARIANTS = 3;
+
+interface ImageEntry {
+  variants: Map<string, ProcessedPixels>; // By pipeline key
+  latest: ProcessedPixels | null; // Shown while a newer variant is being processed
+  pendingKey: string | null;
+  queued: { key: string; image: CanvasImage } | null;
+}
+
+// Entries by image id, stored under the element so they are released along with it.
+// Images can share an element (duplicates, uncropped originals) but each keeps its own entry.
+const entries = new WeakMap<HTMLImageElement, Map<string, ImageEntry>>();
+const listeners = new Set<() => void>();
+
+// Undefined until first needed; null when workers are unavailable.
+let worker: Worker | null | undefined;
+let nextJobId = 0;
+const pendingJobs = new Map<number, { resolve: (bitmap: ImageBitmap) => void; reject: (error: Error) => void }>();
+
+const getWorker = (): Worker | null => {
+  if (worker !== undefined) return worker;
+  try {
+    const created = new Worker(new URL('../workers/imageProcessWorker.ts', import.meta.url), { type: 'module' });
+    created.onmessage = ({ data }: MessageEvent<ProcessResponse>) => {
+      const job = pendingJobs.get(data.id);
+      if (!job) return;
+      pendingJobs.delete(data.id);
+      if ('error' in data) job.reject(new Error(data.error));
+      else job.resolve(data.bitmap);
+    };
+    // The worker script failed to load: process on the main thread instead.
+    created.onerror = (e) => {
+      e.preventDefault();
+      created.terminate();
+      worker = null;
+      pendingJobs.forEach(job => job.reject(new Error('Image processing worker failed')));
+      pendingJobs.clear();
+    };
+    worker = created;
+  } catch {
+    worker = null;
+  }
+  return worker;
+};
+
+const processOnMainThread = (image: CanvasImage): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  const source = getElementPixels(image.element);
+  canvas.width = source instanceof HTMLImageElement ? source.naturalWidth : source.width;
+  canvas.height = source instanceof HTMLImageElement ? source.naturalHeight : source.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('2D canvas context not available');
+  ctx.drawImage(source, 0, 0);
+  const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  processPixels(imageData, image);
+  ctx.putImageData(imageData, 0, 0);
+  return canvas;
+};
+
+// Full-resolution processed pixels, computed in the worker when there is one.
+const processImage = async (image: CanvasImage): Promise<ProcessedPixels> => {
+  const processWorker = getWorker();
+  if (!processWorker) return processOnMainThread(image);
+  const bitmap = await createImageBitmap(getElementPixels(image.element));
+  const id = nextJobId++;
+  try {
+    return await new Promise<ImageBitmap>((resolve, reject) => {
+      pendingJobs.set(id, { resolve, reject });
+      const { adjustments, toneCurve, filters } = image;
+      const request: ProcessRequest = { id, bitmap, pipeline: { adjustments, toneCurve, filters } };
+      processWorker.postMessage(request, [bitmap]);
+    });
+  } catch {
+    return processOnMainThread(image);
+  }
+};
+
+const storeVariant = (entry: ImageEntry, key: string, pixels: ProcessedPixels) => {
+  entry.variants.delete(key);
+  entry.variants.set(key, pixels);
+  if (entry.variants.size > MAX_CACHED_VARIANTS) entry.variants.delete(entry.variants.keys().next().value!);
+};
+
+// Processes one variant per element at a time. Requests made meanwhile replace each
+// other, so dragging a slider only processes the latest value once the current job ends.
+const runJob = async (entry: ImageEntry, key: string, image: CanvasImage) => {
+  entry.pendingKey = key;
+  try {
+    const pixels = await processImage(image);
+    storeVariant(entry, key, pixels);
+    entry.latest = pixels;
+    listeners.forEach(listener => listener());
+  } catch {
+    // The image keeps showing its last pixels; the next edit tries again.
+  }
+  entry.pendingKey = null;
+  const queued = entry.queued;
+  entry.queued = null;
+  if (queued && !entry.variants.has(queued.key)) runJob(entry, queued.key, queued.image);
+};
+
+const getEntry = (image: CanvasImage): ImageEntry => {
+  let byId = entries.get(image.element);
+  if (!byId) entries.set(image.element, byId = new Map());
+  let entry = byId.get(image.id);
+  if (!entry) byId.set(image.id, entry = { variants: new Map(), latest: null, pendingKey: null, queued: null });
+  return entry;
+};
+
+/**
+ * The pixels to draw for an image. Without any active pixel edits those are
+ * its element's (see getElementPixels). Otherwise the processed result is cached per image and pipeline; while it is
+ * computed in the background the image's last finished result (or the element's pixels) is returned
+ * and listeners are notified when it is ready. Exports call prepareProcessedSources first.
+ */
+export const getProcessedSource = (image: CanvasImage): ImagePixels => {
+  const key = getPipelineKey(image);
+  if (!key || !hasElementPixels(image.element)) return getElementPixels(image.element);
+
+  const entry = getEntry(image);
+  const cached = entry.variants.get(key);
+  if (cached) {
+    storeVariant(entry, key, cached); // Most recently used
+    return cached;
+  }
+
+  if (entry.pendingKey === null) runJob(entry, key, image);
+  else if (entry.pendingKey !== key) entry.queued = { key, image };
+  return entry.latest ?? getElementPixels(image.element);
+};
+
+/**
+ * Processes the current pixels of every given image that aren't cached yet, one after
+ * the other in the worker. Exports await this before rendering, so they draw the exact
+ * pixels without running the pipeline on the main thread.
+ */
+export const prepareProcessedSources = async (images: CanvasImage[]): Promise<void> => {
+  for (const image of images) {
+    const key = getPipelineKey(image);
+    if (!key || !hasElementPixels(image.element)) continue;
+    const entry = getEntry(image);
+    if (!entry.variants.has(key)) storeVariant(entry, key, await processImage(image));
+  }
+};
+
+// Called whenever processed pixels become available, so the canvas can redraw with them.
+export const subscribeToProcessedImages = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+/**
+ * The visible (cropped and flipped) part of an image's original pixels, downscaled so its
+ * longer side is at most `maxSize`. `scale` is preview pixels per source pixel.
+ */
+export const sampleImagePixels = (image: CanvasImage, maxSize: number): { pixels: ImageData; scale: number } | null => {
+  const crop = image.cropRect ?? { x: 0, y: 0, width: image.originalWidth, height: image.originalHeight };
+  const scale = Math.min(1, maxSize / Math.max(crop.width, crop.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(crop.width * scale));
+  canvas.height = Math.max(1, Math.round(crop.height * scale));
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx || !hasElementPixels(image.element)) return null;
+  ctx.translate(image.flipX ? canvas.width : 0, image.flipY ? canvas.height : 0);
+  ctx.scale(image.flipX ? -1 : 1, image.flipY ? -1 : 1);
+  ctx.drawImage(getElementPixels(image.element), crop.x, crop.y, crop.width, crop.height, 0, 0, canvas.width, canvas.height);
+  return { pixels: ctx.getImageData(0, 0, canvas.width, canvas.height), scale };
+};
+
+// Enough pixels for a representative histogram while staying cheap to recompute.
+const HISTOGRAM_SAMPLE_SIZE = 256;
+
+// The histogram of the pixels entering the tone curve: the visible part of the image after its adjustments.
+export const computeImageHistogram = (image: CanvasImage): Histogram => {
+  const sample = sampleImagePixels(image, HISTOGRAM_SAMPLE_SIZE);
+  if (!sample) return computeHistogram(new Uint8ClampedArray(0));
+  applyAdjustments(sample.pixels.data, image.adjustments ?? []);
+  return computeHistogram(sample.pixels.data);
+};
+
+// Copies any image source into a canvas, e.g. to encode it.
+export const pixelsToCanvas = (pixels: ImagePixels): HTMLCanvasElement => {
+  if (pixels instanceof HTMLCanvasElement) return pixels;
+  const canvas = document.createElement('canvas');
+  canvas.width = pixels instanceof HTMLImageElement ? pixels.naturalWidth : pixels.width;
+  canvas.height = pixels instanceof HTMLImageElement ? pixels.naturalHeight : pixels.height;
+  canvas.getContext('2d')?.drawImage(pixels, 0, 0);
+  return canvas;
+};
+
+// The image's processed pixels at full resolution as a PNG, for baking them into a new element.
+export const renderProcessedImageBlob = async (image: CanvasImage): Promise<Blob> =>
+  canvasToBlob(pixelsToCanvas(await processImage(image)), 'image/png');
@@ -0,0 +1,143 @@
+import { CanvasImage, Group, Point, ImportPlaceholder } from '../types';
+import { getArrangedPositions, getImagesBounds } from './canvasUtils';
+
+const FOLDER_GAP = 80; // Vertical space between the grids of two folders
+const GRID_PADDING = 10;
+const PLACEHOLDER_SIZE = { width: 240, height: 180 };
+
+// Files decoded at the same time.
+export const IMPORT_CONCURRENCY = 6;
+
+export const isImageFile = (file: File): boolean => file.type.startsWith('image/');
+
+// "Photos/Trip/IMG_1.jpg" -> "Photos/Trip". Files from a plain file dialog have no folder.
+export const getFolderPath = (file: File): string => {
+  const parts = (file.webkitRelativePath || file.name).split('/');
+  return parts.slice(0, -1).join('/');
+};
+
+export const compareFilePaths = (a: File, b: File): number =>
+  (a.webkitRelativePath || a.name).localeCompare(b.webkitRelativePath || b.name, undefined, { numeric: true, sensitivity: 'base' });
+
+/**
+ * Builds one group per folder, nested like the directory tree. Folders without
+ * images of their own still get a group when a subfolder has images, so the
+ * hierarchy is kept.
+ */
+export const createFolderGroups = (imageIdsByFolder: Map<string, string[]>): Group[] => {
+  const groupsByPath = new Map<string, Group>();
+
+  const ensureGroup = (path: string): Group => {
+    const existing = groupsByPath.get(path);
+    if (existing) return existing;
+    const slash = path.lastIndexOf('/');
+    const parent = slash > 0 ? ensureGroup(path.slice(0, slash)) : null;
+    const name = path.slice(slash + 1);
+    const group: Group = {
+      id: `group-${Date.now()}-${Math.random()}`,
+      name,
+      label: name,
+      showLabel: false,
+      imageIds: [],
+      groupIds: [],
+      isExpanded: true,
+      parentId: parent?.id ?? null,
+    };
+    parent?.groupIds.push(group.id);
+    groupsByPath.set(path, group);
+    return group;
+  };
+
+  imageIdsByFolder.forEach((imageIds, path) => {
+    if (path) ensureGroup(path).imageIds.push(...imageIds);
+  });
+  return Array.from(groupsByPath.values());
+};
+
+/**
+ * Lays out each folder's images as a roughly square grid, one folder below the
+ * other. Every grid row uses the same arrangement as "Arrange Horizontally".
+ */
+export const layoutFolderGrids = (imagesByFolder: CanvasImage[][], origin: Point): CanvasImage[] => {
+  const placed: CanvasImage[] = [];
+  let y = origin.y;
+
+  imagesByFolder.forEach(folderImages => {
+    const columns = Math.ceil(Math.sqrt(folderImages.length));
+    for (let i = 0; i < folderImages.length; i += columns) {
+      const row = folderImages.slice(i, i + columns);
+      const positions = getArrangedPositions(row, 'horizontal', { x: origin.x, y }, GRID_PADDING);
+      const rowImages = row.map(img => ({ ...img, ...positions.get(img.id)! }));
+      placed.push(...rowImages);
+      y += (getImagesBounds(rowImages)?.height ?? 0) + GRID_PADDING;
+    }
+    y += FOLDER_GAP - GRID_PADDING;
+  });
+  return placed;
+};
+
+/**
+ * Runs `task` over all items with at most `limit` running at once, keeping the
+ * results in input order.
+ */
+export const mapWithConcurrency = async <T, R>(items: T[], limit: number, task: (item: T, index: number) => Promise<R>): Promise<PromiseSettledResult<R>[]> => {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  let next = 0;
+  const run = async () => {
+    while (next < items.length) {
+      const index = next++;
+      try {
+        results[index] = { status: 'fulfilled', value: await task(items[index], index) };
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason };
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, run));
+  return results;
+};
+
+/**
+ * Uniform placeholder cells in the same per-folder grid arrangement the
+ * decoded images will get, centered on `center`. Ids are `<batchId>-<file index>`.
+ */
+export const createImportPlaceholders = (files: File[], center: Point, batchId: string): ImportPlaceholder[] => {
+  const indicesByFolder = new Map<string, number[]>();
+  files.forEach((file, i) => {
+    const folder = getFolderPath(file);
+    indicesByFolder.set(folder, [...(indicesByFolder.get(folder) ?? []), i]);
+  });
+
+  const placeholders: ImportPlaceholder[] = [];
+  let y = 0;
+  let width = 0;
+  indicesByFolder.forEach(indices => {
+    const columns = Math.ceil(Math.sqrt(indices.length));
+    indices.forEach((fileIndex, i) => {
+      const column = i % columns;
+      const row = Math.floor(i / columns);
+      placeholders.push({
+        id: `${batchId}-${fileIndex}`,
+        name: files[fileIndex].name,
+        rect: { x: column * (PLACEHOLDER_SIZE.width + GRID_PADDING), y: y + row * (PLACEHOLDER_SIZE.height + GRID_PADDING), ...PLACEHOLDER_SIZE },
+      });
+    });
+    width = Math.max(width, columns * (PLACEHOLDER_SIZE.width + GRID_PADDING) - GRID_PADDING);
+    y += Math.ceil(indices.length / columns) * (PLACEHOLDER_SIZE.height + GRID_PADDING) - GRID_PADDING + FOLDER_GAP;
+  });
+
+  const height = y - FOLDER_GAP;
+  return placeholders.map(p => ({ ...p, rect: { ...p.rect, x: p.rect.x + center.x - width / 2, y: p.rect.y + center.y - height / 2 } }));
+};
+
+// Scales an image down to fit a placeholder cell and centers it there, to show it until the whole import is laid out.
+export const fitImageToPlaceholder = (image: CanvasImage, placeholder: ImportPlaceholder): CanvasImage => {
+  const { rect } = placeholder;
+  const scale = Math.min(1, rect.width / image.width, rect.height / image.height);
+  return {
+    ...image,
+    scale,
+    x: rect.x + (rect.width - image.width * scale) / 2,
+    y: rect.y + (rect.height - image.height * scale) / 2,
+  };
+};
@@ -0,0 +1,91 @@
+// Raw project JSON as read from disk, before it has been upgraded to the current shape.
+type RawProject = Record<string, any>;
+type Migration = (project: RawProject) => RawProject;
+
+const isRecord = (value: unknown): value is RawProject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Entries that aren't objects are passed through untouched, so validation can report them instead of the upgrade crashing.
+const forRecords = (fn: Migration): Migration => (value) => isRecord(value) ? fn(value) : value;
+
+// Lists could be left out before v2. Anything else that isn't a list is passed through for validation to report.
+const mapList = (value: unknown, fn: Migration): unknown =>
+  value === undefined ? [] : Array.isArray(value) ? value.map(forRecords(fn)) : value;
+
+const withAnnotationDefaults = (annotation: RawProject): RawProject => ({
+  ...annotation,
+  scale: annotation.scale ?? 1,
+  rotation: annotation.rotation ?? 0,
+});
+
+const withImageDefaults = (image: RawProject): RawProject => ({
+  ...image,
+  visible: image.visible ?? true,
+  locked: image.locked ?? false,
+  tags: Array.isArray(image.tags) ? image.tags : [],
+  outlineColor: image.outlineColor ?? '#000000',
+  outlineWidth: image.outlineWidth ?? 0,
+  outlineOpacity: image.outlineOpacity ?? 1,
+  cropRect: image.cropRect ?? null,
+  annotations: mapList(image.annotations, withAnnotationDefaults),
+});
+
+const withGroupDefaults = (group: RawProject): RawProject => ({
+  ...group,
+  label: group.label ?? group.name ?? '',
+  showLabel: group.showLabel ?? false,
+  imageIds: Array.isArray(group.imageIds) ? group.imageIds : [],
+  groupIds: Array.isArray(group.groupIds) ? group.groupIds : [],
+  isExpanded: group.isExpanded ?? true,
+  parentId: group.parentId ?? null,
+  visible: group.visible ?? true,
+  locked: group.locked ?? false,
+});
+
+const mapRecord = (record: RawProject | undefined, fn: Migration): RawProject => {
+  const result: RawProject = {};
+  Object.entries(record ?? {}).forEach(([key, value]) => {
+    result[key] = fn(value);
+  });
+  return result;
+};
+
+/**
+ * Registry of upgrade steps, keyed by the version they upgrade *from*.
+ * Each step receives a project at version N and returns it at version N + 1.
+ * When a type in types.ts changes shape, bump the version by adding a step here.
+ */
+const migrations: Record<number, Migration> = {
+  // v2 made visibility, locking, tags and outline settings explicit on every item.
+  1: (project) => ({
+    ...project,
+    images: Array.isArray(project.images) ? project.images.map(forRecords(withImageDefaults)) : project.images,
+    archivedImages: mapRecord(project.archivedImages, forRecords(withImageDefaults)),
+    groups: mapList(project.groups, withGroupDefaults),
+    canvasAnnotations: mapList(project.canvasAnnotations, withAnnotationDefaults),
+  }),
+  // v3 added named export slices and the presets they refer to.
+  2: (project) => ({
+    ...project,
+    exportSlices: [],
+    exportPresets: [],
+  }),
+};
+
+export const CURRENT_PROJECT_VERSION = Math.max(...Object.keys(migrations).map(Number)) + 1;
+
+/**
+ * Upgrades a project from its stored version to CURRENT_PROJECT_VERSION,
+ * applying each registered step in turn.
+ */
+export const migrateProject = (project: RawProject): RawProject => {
+  let current = project;
+  while (current.version < CURRENT_PROJECT_VERSION) {
+    const migrate = migrations[current.version];
+    if (!migrate) {
+      throw new Error(`No migration is available for project version ${current.version}.`);
+    }
+    current = { ...migrate(current), version: current.version + 1 };
+  }
+  return current;
+};
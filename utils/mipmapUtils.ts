@@ -0,0 +1,61 @@
+// Downscaled copies of large images, so zoomed-out views don't resample full-resolution pixels every frame.
+
+// An image element, or its adjusted and filtered pixels.
+type Source = HTMLImageElement | HTMLCanvasElement | ImageBitmap;
+
+// Images whose longer side is at most this size are always drawn as they are.
+const MIN_PYRAMID_SIZE = 1024;
+const MIN_LEVEL_SIZE = 128;
+
+// Level 0 is the image itself; each following level is half the size of the one before.
+const pyramids = new WeakMap<Source, Source[]>();
+const pendingPyramids = new WeakSet<Source>();
+const listeners = new Set<() => void>();
+
+const getSize = (source: Source) =>
+  source instanceof HTMLImageElement ? { width: source.naturalWidth, height: source.naturalHeight } : { width: source.width, height: source.height };
+
+const buildPyramid = async (element: Source) => {
+  pendingPyramids.add(element);
+  const levels: Source[] = [element];
+  try {
+    let source: Source = element;
+    let { width, height } = getSize(element);
+    while (Math.max(width, height) / 2 >= MIN_LEVEL_SIZE) {
+      width = Math.max(1, Math.round(width / 2));
+      height = Math.max(1, Math.round(height / 2));
+      // Halving from the previous level keeps the quality of a box filter at every size.
+      source = await createImageBitmap(source, { resizeWidth: width, resizeHeight: height, resizeQuality: 'high' });
+      levels.push(source);
+    }
+  } catch {
+    // The levels built so far still help; the full image covers the rest.
+  }
+  pyramids.set(element, levels);
+  pendingPyramids.delete(element);
+  listeners.forEach(listener => listener());
+};
+
+/**
+ * Picks the smallest level that still has at least one pixel per screen pixel
+ * at `pixelScale` (screen pixels per source pixel). Falls back to the full
+ * image while the levels are being built in the background.
+ */
+export const getImageLevel = (element: Source, pixelScale: number): Source => {
+  const { width, height } = getSize(element);
+  if (pixelScale >= 0.5 || Math.max(width, height) <= MIN_PYRAMID_SIZE) return element;
+
+  const levels = pyramids.get(element);
+  if (!levels) {
+    if (!pendingPyramids.has(element) && (!(element instanceof HTMLImageElement) || element.complete)) buildPyramid(element);
+    return element;
+  }
+  const index = Math.min(levels.length - 1, Math.floor(Math.log2(1 / pixelScale)));
+  return levels[index];
+};
+
+// Called whenever new levels become available, so the canvas can redraw with them.
+export const subscribeToImageLevels = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
@@ -0,0 +1,161 @@
+import { canvasToBlob } from './fileUtils';
+
+export type PdfPageSize = 'a4' | 'letter' | 'fit';
+export type PdfOrientation = 'auto' | 'portrait' | 'landscape';
+export type PdfImageEncoding = 'jpeg' | 'flate';
+export type PdfExportMode = 'images' | 'groups' | 'canvas';
+
+export interface PdfOptions {
+  pageSize: PdfPageSize;
+  orientation: PdfOrientation;
+  margin: number; // in points (1/72 inch)
+  includeCaptions: boolean;
+  imageEncoding: PdfImageEncoding;
+}
+
+export interface PdfPage {
+  canvas: HTMLCanvasElement;
+  caption?: string;
+}
+
+export const DEFAULT_PDF_OPTIONS: PdfOptions = {
+  pageSize: 'a4',
+  orientation: 'auto',
+  margin: 36,
+  includeCaptions: true,
+  imageEncoding: 'jpeg',
+};
+
+// Page dimensions in points, portrait.
+const PAGE_SIZES: Record<Exclude<PdfPageSize, 'fit'>, { width: number; height: number }> = {
+  a4: { width: 595.28, height: 841.89 },
+  letter: { width: 612, height: 792 },
+};
+
+const CAPTION_FONT_SIZE = 10;
+const CAPTION_SPACE = CAPTION_FONT_SIZE * 2;
+const JPEG_QUALITY = 0.92;
+
+const encoder = new TextEncoder();
+
+const n = (value: number): string => String(Math.round(value * 100) / 100);
+
+// Captions use the standard Helvetica font, which only covers Latin-1 in WinAnsiEncoding.
+const toPdfString = (text: string): Uint8Array => {
+  const bytes: number[] = [];
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    const byte = code < 32 || code > 255 ? 0x3f : code; // '?'
+    if (byte === 0x28 || byte === 0x29 || byte === 0x5c) bytes.push(0x5c); // escape ( ) \
+    bytes.push(byte);
+  }
+  return new Uint8Array(bytes);
+};
+
+const deflate = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const encodeImage = async (canvas: HTMLCanvasElement, encoding: PdfImageEncoding): Promise<{ filter: string; data: Uint8Array }> => {
+  if (encoding === 'jpeg') {
+    const blob = await canvasToBlob(canvas, 'image/jpeg', JPEG_QUALITY);
+    return { filter: 'DCTDecode', data: new Uint8Array(await blob.arrayBuffer()) };
+  }
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not read canvas pixels.');
+  const rgba = ctx.getImageData(0, 0, canvas.width, canvas.height).data;
+  const rgb = new Uint8Array(canvas.width * canvas.height * 3);
+  for (let i = 0, j = 0; i < rgba.length; i += 4, j += 3) {
+    rgb[j] = rgba[i];
+    rgb[j + 1] = rgba[i + 1];
+    rgb[j + 2] = rgba[i + 2];
+  }
+  return { filter: 'FlateDecode', data: await deflate(rgb) };
+};
+
+const getPageSize = (page: PdfPage, options: PdfOptions): { width: number; height: number } => {
+  const captionSpace = options.includeCaptions && page.caption ? CAPTION_SPACE : 0;
+  if (options.pageSize === 'fit') {
+    // One canvas pixel maps to one point.
+    return { width: page.canvas.width + options.margin * 2, height: page.canvas.height + options.margin * 2 + captionSpace };
+  }
+  const base = PAGE_SIZES[options.pageSize];
+  const landscape = options.orientation === 'landscape' || (options.orientation === 'auto' && page.canvas.width > page.canvas.height);
+  return landscape ? { width: base.height, height: base.width } : base;
+};
+
+/**
+ * Writes a PDF with one page per entry. Each page shows its canvas scaled to fit
+ * inside the margins, optionally with a caption underneath.
+ */
+export const createPdf = async (pages: PdfPage[], options: PdfOptions): Promise<Blob> => {
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const write = (data: string | Uint8Array) => {
+    const bytes = typeof data === 'string' ? encoder.encode(data) : data;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+  const writeObject = (id: number, body: string) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n${body}\nendobj\n`);
+  };
+  const writeStream = (id: number, dict: string, data: Uint8Array) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n<< ${dict} /Length ${data.length} >>\nstream\n`);
+    write(data);
+    write('\nendstream\nendobj\n');
+  };
+
+  // Fixed objects: 1 catalog, 2 page tree, 3 caption font. Each page then uses three: page, content, image.
+  const pageObjectId = (index: number) => 4 + index * 3;
+  const objectCount = 3 + pages.length * 3;
+
+  write('%PDF-1.4\n%\xE2\xE3\xCF\xD3\n');
+  writeObject(1, '<< /Type /Catalog /Pages 2 0 R >>');
+  writeObject(2, `<< /Type /Pages /Kids [${pages.map((_, i) => `${pageObjectId(i)} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+  writeObject(3, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+
+  for (let i = 0; i < pages.length; i++) {
+    const page = pages[i];
+    const pageId = pageObjectId(i);
+    const contentId = pageId + 1;
+    const imageId = pageId + 2;
+
+    const { width: pageWidth, height: pageHeight } = getPageSize(page, options);
+    const hasCaption = options.includeCaptions && !!page.caption;
+    const availableWidth = Math.max(1, pageWidth - options.margin * 2);
+    const availableHeight = Math.max(1, pageHeight - options.margin * 2 - (hasCaption ? CAPTION_SPACE : 0));
+    const scale = Math.min(availableWidth / page.canvas.width, availableHeight / page.canvas.height);
+    const drawWidth = page.canvas.width * scale;
+    const drawHeight = page.canvas.height * scale;
+    const drawX = (pageWidth - drawWidth) / 2;
+    const drawY = pageHeight - options.margin - drawHeight; // PDF origin is bottom-left
+
+    writeObject(pageId, `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${n(pageWidth)} ${n(pageHeight)}] /Resources << /Font << /F1 3 0 R >> /XObject << /Im1 ${imageId} 0 R >> >> /Contents ${contentId} 0 R >>`);
+
+    const content: Uint8Array[] = [encoder.encode(`q ${n(drawWidth)} 0 0 ${n(drawHeight)} ${n(drawX)} ${n(drawY)} cm /Im1 Do Q\n`)];
+    if (hasCaption) {
+      const captionY = drawY - CAPTION_FONT_SIZE - CAPTION_FONT_SIZE / 2;
+      content.push(encoder.encode(`BT /F1 ${CAPTION_FONT_SIZE} Tf 0.2 g ${n(drawX)} ${n(captionY)} Td (`), toPdfString(page.caption!), encoder.encode(') Tj ET\n'));
+    }
+    const contentBytes = new Uint8Array(content.reduce((sum, c) => sum + c.length, 0));
+    content.reduce((offset, c) => { contentBytes.set(c, offset); return offset + c.length; }, 0);
+    writeStream(contentId, '', contentBytes);
+
+    const image = await encodeImage(page.canvas, options.imageEncoding);
+    writeStream(imageId, `/Type /XObject /Subtype /Image /Width ${page.canvas.width} /Height ${page.canvas.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /${image.filter}`, image.data);
+  }
+
+  const xrefOffset = length;
+  write(`xref\n0 ${objectCount + 1}\n0000000000 65535 f \n`);
+  for (let id = 1; id <= objectCount; id++) {
+    write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+  }
+  write(`trailer\n<< /Size ${objectCount + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  return new Blob(chunks as BlobPart[], { type: 'application/pdf' });
+};
@@ -0,0 +1,42 @@
+import { CanvasImage } from '../types';
+import { applyAdjustments, getActiveAdjustments } from './adjustmentUtils';
+import { applyFilters, getActiveFilters, PixelBuffer } from './filterUtils';
+import { applyToneCurve, isToneCurveNeutral } from './toneCurveUtils';
+
+// Everything that changes an image's pixels. A CanvasImage is one.
+export type PixelPipeline = Pick<CanvasImage, 'adjustments' | 'toneCurve' | 'filters'>;
+
+export type ProcessRequest = { id: number; bitmap: ImageBitmap; pipeline: PixelPipeline };
+export type ProcessResponse = { id: number; bitmap: ImageBitmap } | { id: number; error: string };
+
+// Identifies what the pipeline does to the pixels; null when it leaves them unchanged.
+export const getPipelineKey = ({ adjustments, toneCurve, filters }: PixelPipeline): string | null => {
+  const activeAdjustments = getActiveAdjustments(adjustments);
+  const activeFilters = getActiveFilters(filters);
+  const activeToneCurve = isToneCurveNeutral(toneCurve) ? null : toneCurve;
+  if (activeAdjustments.length === 0 && !activeToneCurve && activeFilters.length === 0) return null;
+  return JSON.stringify([activeAdjustments.map(a => [a.type, a.value]), activeToneCurve, activeFilters.map(f => [f.type, f.amount])]);
+};
+
+// Adjustments, then the tone curve, then filters, in place. See applyFilters for `scale`.
+export const processPixels = (pixels: PixelBuffer, { adjustments = [], toneCurve, filters = [] }: PixelPipeline, scale = 1) => {
+  applyAdjustments(pixels.data, adjustments);
+  applyToneCurve(pixels.data, toneCurve);
+  applyFilters(pixels, filters, scale);
+};
+
+/**
+ * Runs the pipeline on a bitmap with an OffscreenCanvas, which is available in
+ * workers. The input bitmap is closed.
+ */
+export const processImageBitmap = (bitmap: ImageBitmap, pipeline: PixelPipeline): ImageBitmap => {
+  const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('2D canvas context not available');
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  processPixels(imageData, pipeline);
+  ctx.putImageData(imageData, 0, 0);
+  return canvas.transferToImageBitmap();
+};
@@ -0,0 +1,148 @@
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+// iTXt keyword under which exported PNGs carry their project data.
+export const PNG_PROJECT_KEYWORD = 'canvas-image-pro';
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+let crcTable: Uint32Array | null = null;
+const getCrcTable = (): Uint32Array => {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  return crcTable;
+};
+
+const crc32 = (bytes: Uint8Array): number => {
+  const table = getCrcTable();
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = table[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  parts.reduce((offset, p) => { out.set(p, offset); return offset + p.length; }, 0);
+  return out;
+};
+
+// PNG uses zlib streams, which is what the 'deflate' format of CompressionStream produces.
+const transform = async (data: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> =>
+  new Uint8Array(await new Response(new Blob([data as BlobPart]).stream().pipeThrough(stream)).arrayBuffer());
+
+const isPngBytes = (bytes: Uint8Array): boolean =>
+  bytes.length >= PNG_SIGNATURE.length && PNG_SIGNATURE.every((b, i) => bytes[i] === b);
+
+interface PngChunk {
+  type: string;
+  start: number; // Offset of the length field
+  data: Uint8Array;
+}
+
+const readChunks = (bytes: Uint8Array): PngChunk[] => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: PngChunk[] = [];
+  let offset = PNG_SIGNATURE.length;
+  while (offset + 12 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    if (offset + 12 + length > bytes.length) break;
+    chunks.push({ type, start: offset, data: bytes.subarray(offset + 8, offset + 8 + length) });
+    offset += 12 + length;
+    if (type === 'IEND') break;
+  }
+  return chunks;
+};
+
+const createChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const typeAndData = concat([encoder.encode(type), data]);
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set(typeAndData, 4);
+  view.setUint32(8 + data.length, crc32(typeAndData));
+  return chunk;
+};
+
+const getTextKeyword = (chunk: PngChunk): string | null => {
+  if (chunk.type !== 'iTXt' && chunk.type !== 'tEXt') return null;
+  const end = chunk.data.indexOf(0);
+  return end > 0 ? decoder.decode(chunk.data.subarray(0, end)) : null;
+};
+
+/**
+ * Returns a copy of the PNG with a compressed iTXt chunk holding `text` under
+ * `keyword`, inserted right before IEND. Existing chunks with the same keyword are replaced.
+ */
+export const embedPngText = async (png: Blob, keyword: string, text: string): Promise<Blob> => {
+  const bytes = new Uint8Array(await png.arrayBuffer());
+  if (!isPngBytes(bytes)) throw new Error('The image is not a PNG.');
+  const chunks = readChunks(bytes);
+  const iend = chunks.find(c => c.type === 'IEND');
+  if (!iend) throw new Error('The PNG is truncated.');
+
+  // keyword \0, compression flag, compression method, language tag \0, translated keyword \0, text
+  const header = concat([encoder.encode(keyword), new Uint8Array([0, 1, 0, 0, 0])]);
+  const itxt = createChunk('iTXt', concat([header, await transform(encoder.encode(text), new CompressionStream('deflate'))]));
+
+  const kept = chunks
+    .filter(c => c.type !== 'IEND' && getTextKeyword(c) !== keyword)
+    .map(c => bytes.subarray(c.start, c.start + 12 + c.data.length));
+  return new Blob([concat([bytes.subarray(0, PNG_SIGNATURE.length), ...kept, itxt, createChunk('IEND', new Uint8Array(0))]) as BlobPart], { type: 'image/png' });
+};
+
+/**
+ * Returns a copy of the PNG with a chunk of the given type inserted before the
+ * image data, replacing any existing chunks of that type. Used for eXIf.
+ */
+export const addPngChunk = async (png: Blob, type: string, data: Uint8Array): Promise<Blob> => {
+  const bytes = new Uint8Array(await png.arrayBuffer());
+  if (!isPngBytes(bytes)) throw new Error('The image is not a PNG.');
+  const chunks = readChunks(bytes).filter(c => c.type !== type);
+  const idat = chunks.findIndex(c => c.type === 'IDAT');
+  if (idat < 0) throw new Error('The PNG has no image data.');
+
+  const raw = chunks.map(c => bytes.subarray(c.start, c.start + 12 + c.data.length));
+  raw.splice(idat, 0, createChunk(type, data));
+  return new Blob([concat([bytes.subarray(0, PNG_SIGNATURE.length), ...raw]) as BlobPart], { type: 'image/png' });
+};
+
+/**
+ * Reads the text stored under `keyword` in an iTXt or tEXt chunk, or null when
+ * the file is not a PNG or has no such chunk. Only the chunk headers and text
+ * chunks are read from the file, so the image data is never loaded.
+ */
+export const readPngText = async (file: Blob, keyword: string): Promise<string | null> => {
+  const readBytes = async (start: number, end: number) => new Uint8Array(await file.slice(start, end).arrayBuffer());
+  if (!isPngBytes(await readBytes(0, PNG_SIGNATURE.length))) return null;
+
+  let chunk: PngChunk | null = null;
+  for (let offset = PNG_SIGNATURE.length; offset + 12 <= file.size && !chunk;) {
+    const header = await readBytes(offset, offset + 8);
+    const length = new DataView(header.buffer).getUint32(0);
+    const type = String.fromCharCode(...header.subarray(4, 8));
+    if (offset + 12 + length > file.size || type === 'IEND') break;
+    if (type === 'iTXt' || type === 'tEXt') {
+      const candidate = { type, start: offset, data: await readBytes(offset + 8, offset + 8 + length) };
+      if (getTextKeyword(candidate) === keyword) chunk = candidate;
+    }
+    offset += 12 + length;
+  }
+  if (!chunk) return null;
+
+  const data = chunk.data.subarray(chunk.data.indexOf(0) + 1);
+  if (chunk.type === 'tEXt') return new TextDecoder('latin1').decode(data);
+
+  const [compressed] = data;
+  const languageEnd = data.indexOf(0, 2);
+  const translatedEnd = data.indexOf(0, languageEnd + 1);
+  if (languageEnd < 0 || translatedEnd < 0) throw new Error('The PNG text chunk is corrupt.');
+  const text = data.subarray(translatedEnd + 1);
+  return decoder.decode(compressed ? await transform(text, new DecompressionStream('deflate')) : text);
+};
@@ -0,0 +1,268 @@
+import { CanvasImage, Group, Annotation, ToolOptions, Point, ExportSlice, ExportPreset } from '../types';
+import { createImageElementFromDataUrl, getImageSourceBlob, blobToDataUrl } from './fileUtils';
+import { CURRENT_PROJECT_VERSION, migrateProject } from './migrationUtils';
+
+export const PROJECT_FILE_FORMAT = 'canvas-image-pro';
+export const PROJECT_FILE_VERSION = CURRENT_PROJECT_VERSION;
+export const PROJECT_FILE_EXTENSION = 'cpro';
+
+// A CanvasImage as stored on disk: the live element is replaced by its encoded source.
+export type SerializedCanvasImage = Omit<CanvasImage, 'element' | 'createdAt' | 'groups'> & {
+  src: string;
+  createdAt: string;
+};
+
+export interface ProjectFile {
+  format: typeof PROJECT_FILE_FORMAT;
+  version: number;
+  savedAt: string;
+  images: SerializedCanvasImage[];
+  groups: Group[];
+  canvasAnnotations: Annotation[];
+  layerOrder: string[]; // Image IDs, bottom to top
+  archivedImages: Record<string, SerializedCanvasImage>;
+  toolOptions: ToolOptions;
+  viewTransform?: { scale: number; offset: Point };
+  exportSlices: ExportSlice[];
+  exportPresets: ExportPreset[]; // Presets referenced by the slices
+}
+
+export interface ProjectState {
+  images: CanvasImage[];
+  groups: Group[];
+  canvasAnnotations: Annotation[];
+  archivedImages: Record<string, CanvasImage>;
+  toolOptions: ToolOptions;
+  viewTransform?: { scale: number; offset: Point };
+  exportSlices: ExportSlice[];
+  exportPresets: ExportPreset[];
+}
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const imageElementToDataUrl = (element: HTMLImageElement): string => {
+  if (element.src.startsWith('data:')) return element.src;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = element.naturalWidth;
+  canvas.height = element.naturalHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not create a canvas to encode image data.');
+  ctx.drawImage(element, 0, 0);
+  return canvas.toDataURL('image/png');
+};
+
+/**
+ * Narrows a project to the given images and canvas annotations, e.g. for a
+ * selection export. Groups without any of those images are dropped.
+ */
+export const pickProjectState = (state: ProjectState, images: CanvasImage[], canvasAnnotations: Annotation[]): ProjectState => {
+  const imageIds = new Set(images.map(img => img.id));
+  const groupMap = new Map(state.groups.map(g => [g.id, g]));
+  const containsImages = (group: Group): boolean =>
+    group.imageIds.some(id => imageIds.has(id)) ||
+    group.groupIds.some(id => { const child = groupMap.get(id); return !!child && containsImages(child); });
+  const keptGroupIds = new Set(state.groups.filter(containsImages).map(g => g.id));
+  const archivedIds = new Set(images.flatMap(img => [img.uncroppedFromId, img.bakedFromId]).filter((id): id is string => !!id));
+
+  return {
+    ...state,
+    images,
+    canvasAnnotations,
+    groups: state.groups
+      .filter(g => keptGroupIds.has(g.id))
+      .map(g => ({ ...g, imageIds: g.imageIds.filter(id => imageIds.has(id)), groupIds: g.groupIds.filter(id => keptGroupIds.has(id)) })),
+    archivedImages: Object.fromEntries(Object.entries(state.archivedImages).filter(([id]) => archivedIds.has(id))),
+    exportSlices: [],
+    exportPresets: [],
+  };
+};
+
+// Turns an image element into the string stored in its `src` field, and back again.
+export type ImageEncoder = (element: HTMLImageElement) => Promise<string>;
+export type ImageResolver = (src: string) => Promise<HTMLImageElement>;
+
+// Imported files keep their original bytes instead of being re-encoded from pixels.
+const encodeAsDataUrl: ImageEncoder = async (element) => {
+  const source = getImageSourceBlob(element);
+  return source ? blobToDataUrl(source) : imageElementToDataUrl(element);
+};
+
+export const serializeProject = async (state: ProjectState, encodeImage: ImageEncoder = encodeAsDataUrl): Promise<ProjectFile> => {
+  const serializeImage = async (image: CanvasImage): Promise<SerializedCanvasImage> => {
+    const { element, createdAt, groups, ...rest } = image;
+    return {
+      ...rest,
+      src: await encodeImage(element),
+      createdAt: new Date(createdAt).toISOString(),
+    };
+  };
+
+  const archivedImages: Record<string, SerializedCanvasImage> = {};
+  for (const [id, image] of Object.entries(state.archivedImages)) {
+    archivedImages[id] = await serializeImage(image);
+  }
+
+  return {
+    format: PROJECT_FILE_FORMAT,
+    version: PROJECT_FILE_VERSION,
+    savedAt: new Date().toISOString(),
+    images: await Promise.all(state.images.map(serializeImage)),
+    groups: state.groups,
+    canvasAnnotations: state.canvasAnnotations,
+    layerOrder: state.images.map(img => img.id),
+    archivedImages,
+    toolOptions: state.toolOptions,
+    viewTransform: state.viewTransform,
+    exportSlices: state.exportSlices,
+    exportPresets: state.exportPresets.filter(preset => state.exportSlices.some(slice => slice.presetId === preset.id)),
+  };
+};
+
+const validateAnnotation = (value: unknown, label: string) => {
+  if (!isObject(value)) throw new Error(`${label} is not a valid annotation entry.`);
+  if (typeof value.id !== 'string') throw new Error(`${label} is missing its id.`);
+  if (typeof value.type !== 'string') throw new Error(`${label} has no annotation type.`);
+};
+
+const validateSerializedImage = (value: unknown, label: string): SerializedCanvasImage => {
+  if (!isObject(value)) throw new Error(`${label} is not a valid image entry.`);
+  if (typeof value.id !== 'string') throw new Error(`${label} is missing its id.`);
+  if (typeof value.src !== 'string' || value.src.length === 0) throw new Error(`${label} has no image data.`);
+  for (const key of ['x', 'y', 'width', 'height', 'scale', 'rotation']) {
+    if (typeof value[key] !== 'number' || !Number.isFinite(value[key])) {
+      throw new Error(`${label} has an invalid "${key}" value.`);
+    }
+  }
+  if (!Array.isArray(value.annotations)) throw new Error(`${label} has invalid annotations.`);
+  value.annotations.forEach((anno: unknown, i: number) => validateAnnotation(anno, `${label}, annotation #${i + 1}`));
+  return value as SerializedCanvasImage;
+};
+
+const validateGroup = (value: unknown, label: string) => {
+  if (!isObject(value)) throw new Error(`${label} is not a valid group entry.`);
+  if (typeof value.id !== 'string') throw new Error(`${label} is missing its id.`);
+  if (!Array.isArray(value.imageIds) || !Array.isArray(value.groupIds)) throw new Error(`${label} has an invalid member list.`);
+};
+
+const validateExportSlice = (value: unknown, label: string) => {
+  if (!isObject(value)) throw new Error(`${label} is not a valid slice entry.`);
+  if (typeof value.id !== 'string') throw new Error(`${label} is missing its id.`);
+  const rect = value.rect;
+  if (!isObject(rect) || ['x', 'y', 'width', 'height'].some(key => typeof rect[key] !== 'number' || !Number.isFinite(rect[key]))) {
+    throw new Error(`${label} has an invalid area.`);
+  }
+};
+
+const validateExportPreset = (value: unknown, label: string) => {
+  if (!isObject(value)) throw new Error(`${label} is not a valid preset entry.`);
+  if (typeof value.id !== 'string') throw new Error(`${label} is missing its id.`);
+  if (!isObject(value.options)) throw new Error(`${label} has invalid export options.`);
+};
+
+/**
+ * Parses and validates the text of a .cpro file. Throws an Error with a
+ * user-facing message when the file is corrupt or from an unsupported version.
+ * Files from older versions are upgraded through the migration registry first.
+ */
+export const parseProjectFile = (text: string): ProjectFile => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is corrupt or is not a project file (invalid JSON).');
+  }
+  return validateProjectData(data);
+};
+
+export const validateProjectData = (data: unknown): ProjectFile => {
+  if (!isObject(data) || data.format !== PROJECT_FILE_FORMAT) {
+    throw new Error('The file is not a Canvas Image Pro project.');
+  }
+  if (typeof data.version !== 'number' || !Number.isInteger(data.version) || data.version < 1) {
+    throw new Error('The project file has a missing or invalid version.');
+  }
+  if (data.version > PROJECT_FILE_VERSION) {
+    throw new Error(`The project was saved by a newer version of the app (file version ${data.version}, supported up to ${PROJECT_FILE_VERSION}).`);
+  }
+
+  let project: Record<string, any>;
+  try {
+    project = migrateProject(data);
+  } catch (e) {
+    throw new Error(`The project could not be upgraded from version ${data.version}: ${e instanceof Error ? e.message : String(e)}`);
+  }
+
+  if (!Array.isArray(project.images)) throw new Error('The project file has no image list.');
+  project.images.forEach((img: unknown, i: number) => validateSerializedImage(img, `Image #${i + 1}`));
+
+  if (!Array.isArray(project.groups)) throw new Error('The project file has an invalid group list.');
+  project.groups.forEach((group: unknown, i: number) => validateGroup(group, `Group #${i + 1}`));
+  if (!Array.isArray(project.canvasAnnotations)) throw new Error('The project file has an invalid annotation list.');
+  project.canvasAnnotations.forEach((anno: unknown, i: number) => validateAnnotation(anno, `Canvas annotation #${i + 1}`));
+  if (!Array.isArray(project.exportSlices)) throw new Error('The project file has an invalid slice list.');
+  project.exportSlices.forEach((slice: unknown, i: number) => validateExportSlice(slice, `Slice #${i + 1}`));
+  if (!Array.isArray(project.exportPresets)) throw new Error('The project file has an invalid preset list.');
+  project.exportPresets.forEach((preset: unknown, i: number) => validateExportPreset(preset, `Preset #${i + 1}`));
+  if (project.layerOrder !== undefined && !Array.isArray(project.layerOrder)) throw new Error('The project file has an invalid layer order.');
+  if (project.archivedImages !== undefined) {
+    if (!isObject(project.archivedImages)) throw new Error('The project file has invalid archived images.');
+    Object.entries(project.archivedImages).forEach(([id, img]) => validateSerializedImage(img, `Archived image "${id}"`));
+  }
+
+  return project as ProjectFile;
+};
+
+/**
+ * Rebuilds live project state from a parsed file, decoding every image source
+ * back into an HTMLImageElement. Images sharing the same source share one element.
+ */
+export const deserializeProject = async (project: ProjectFile, resolveImage: ImageResolver = createImageElementFromDataUrl): Promise<ProjectState> => {
+  const elementCache = new Map<string, Promise<HTMLImageElement>>();
+  const loadElement = (src: string) => {
+    if (!elementCache.has(src)) elementCache.set(src, resolveImage(src));
+    return elementCache.get(src)!;
+  };
+
+  const deserializeImage = async (serialized: SerializedCanvasImage): Promise<CanvasImage> => {
+    const { src, createdAt, ...rest } = serialized;
+    let element: HTMLImageElement;
+    try {
+      element = await loadElement(src);
+    } catch (e) {
+      const reason = e instanceof Error ? ` (${e.message})` : '';
+      throw new Error(`The image "${serialized.name ?? serialized.id}" could not be decoded${reason}.`);
+    }
+    return {
+      ...rest,
+      element,
+      createdAt: new Date(createdAt),
+      originalWidth: rest.originalWidth ?? element.naturalWidth,
+      originalHeight: rest.originalHeight ?? element.naturalHeight,
+      cropRect: rest.cropRect ?? null,
+    };
+  };
+
+  const images = await Promise.all(project.images.map(deserializeImage));
+  if (project.layerOrder) {
+    const position = new Map(project.layerOrder.map((id, index) => [id, index]));
+    images.sort((a, b) => (position.get(a.id) ?? Infinity) - (position.get(b.id) ?? Infinity));
+  }
+
+  const archivedImages: Record<string, CanvasImage> = {};
+  for (const [id, serialized] of Object.entries(project.archivedImages ?? {})) {
+    archivedImages[id] = await deserializeImage(serialized);
+  }
+
+  return {
+    images,
+    groups: project.groups,
+    canvasAnnotations: project.canvasAnnotations,
+    archivedImages,
+    toolOptions: project.toolOptions,
+    viewTransform: project.viewTransform,
+    exportSlices: project.exportSlices,
+    exportPresets: project.exportPresets,
+  };
+};
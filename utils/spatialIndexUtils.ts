@@ -0,0 +1,92 @@
+import { Rect, Point } from '../types';
+import { rectIntersect } from './canvasUtils';
+
+// World units per grid cell. Items are registered in every cell their bounds overlap.
+const CELL_SIZE = 256;
+// Items covering more cells than this are kept in a separate list that every query checks.
+const MAX_CELLS_PER_ITEM = 256;
+
+export interface SpatialIndex {
+  /** Adds or moves an item. */
+  set: (key: string, bounds: Rect) => void;
+  delete: (key: string) => void;
+  has: (key: string) => boolean;
+  keys: () => string[];
+  /** Keys of all items whose bounds intersect `rect`. */
+  queryRect: (rect: Rect) => Set<string>;
+  /** Keys of all items whose bounds are within `tolerance` of `point`. */
+  queryPoint: (point: Point, tolerance?: number) => Set<string>;
+}
+
+/**
+ * A uniform grid hash over world-space bounds. Moving an item only touches the
+ * cells it leaves and enters, so keeping the index in sync with edits is cheap.
+ */
+export const createSpatialIndex = (): SpatialIndex => {
+  const cells = new Map<string, Set<string>>();
+  const items = new Map<string, { bounds: Rect; cellKeys: string[] }>();
+  const oversized = new Set<string>();
+
+  const getCellKeys = (rect: Rect): string[] | null => {
+    const minX = Math.floor(rect.x / CELL_SIZE);
+    const minY = Math.floor(rect.y / CELL_SIZE);
+    const maxX = Math.floor((rect.x + rect.width) / CELL_SIZE);
+    const maxY = Math.floor((rect.y + rect.height) / CELL_SIZE);
+    if ((maxX - minX + 1) * (maxY - minY + 1) > MAX_CELLS_PER_ITEM) return null;
+    const keys: string[] = [];
+    for (let cx = minX; cx <= maxX; cx++) {
+      for (let cy = minY; cy <= maxY; cy++) keys.push(`${cx},${cy}`);
+    }
+    return keys;
+  };
+
+  const remove = (key: string) => {
+    const item = items.get(key);
+    if (!item) return;
+    item.cellKeys.forEach(cellKey => {
+      const cell = cells.get(cellKey);
+      cell?.delete(key);
+      if (cell?.size === 0) cells.delete(cellKey);
+    });
+    oversized.delete(key);
+    items.delete(key);
+  };
+
+  const queryRect = (rect: Rect): Set<string> => {
+    const result = new Set<string>();
+    const consider = (key: string) => {
+      if (!result.has(key) && rectIntersect(items.get(key)!.bounds, rect)) result.add(key);
+    };
+    const cellKeys = getCellKeys(rect);
+    if (cellKeys) {
+      cellKeys.forEach(cellKey => cells.get(cellKey)?.forEach(consider));
+    } else {
+      // The query itself spans more cells than there are worth visiting.
+      items.forEach((_, key) => consider(key));
+    }
+    oversized.forEach(consider);
+    return result;
+  };
+
+  return {
+    set: (key, bounds) => {
+      remove(key);
+      const cellKeys = getCellKeys(bounds);
+      if (cellKeys) {
+        cellKeys.forEach(cellKey => {
+          let cell = cells.get(cellKey);
+          if (!cell) cells.set(cellKey, cell = new Set());
+          cell.add(key);
+        });
+      } else {
+        oversized.add(key);
+      }
+      items.set(key, { bounds, cellKeys: cellKeys ?? [] });
+    },
+    delete: remove,
+    has: key => items.has(key),
+    keys: () => Array.from(items.keys()),
+    queryRect,
+    queryPoint: (point, tolerance = 0) => queryRect({ x: point.x - tolerance, y: point.y - tolerance, width: tolerance * 2, height: tolerance * 2 }),
+  };
+};
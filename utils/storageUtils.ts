@@ -0,0 +1,217 @@
+import { AnnotationSelection } from '../types';
+import { ProjectFile, ProjectState, serializeProject, deserializeProject, validateProjectData } from './projectUtils';
+import { blobToDataUrl, createImageElementFromDataUrl } from './fileUtils';
+
+const DB_NAME = 'canvas-image-pro';
+const DB_VERSION = 3;
+const SESSION_STORE = 'session';
+const PROJECTS_STORE = 'projects';
+const SUMMARIES_STORE = 'projectSummaries'; // Listing the library reads only these, not the image data
+const SESSION_KEY = 'current';
+
+export interface SessionSelection {
+  selectedImageIds: string[];
+  selectedGroupIds: string[];
+  selectedAnnotations: AnnotationSelection[];
+  selectedLayerId: string | null;
+}
+
+export interface LibraryProjectSummary {
+  id: string;
+  name: string;
+  updatedAt: number;
+  imageCount: number;
+  thumbnail: string | null;
+}
+
+interface StoredLibraryProject {
+  id: string;
+  project: ProjectFile; // Image `src` fields hold keys into `blobs`
+  blobs: Record<string, Blob>;
+}
+
+export interface StoredSession {
+  project: ProjectFile; // Image `src` fields hold keys into `blobs`
+  blobs: Record<string, Blob>;
+  selection: SessionSelection;
+  savedAt: number;
+  isUnsaved: boolean;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      let isBlocked = false;
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SESSION_STORE)) db.createObjectStore(SESSION_STORE);
+        if (!db.objectStoreNames.contains(PROJECTS_STORE)) db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(SUMMARIES_STORE)) {
+          const summaries = db.createObjectStore(SUMMARIES_STORE, { keyPath: 'id' });
+          // Version 2 kept the summary fields on the project records themselves.
+          request.transaction!.objectStore(PROJECTS_STORE).openCursor().onsuccess = (event) => {
+            const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+            if (!cursor) return;
+            const { id, name, updatedAt, imageCount, thumbnail } = cursor.value;
+            summaries.put({ id, name, updatedAt, imageCount, thumbnail } satisfies LibraryProjectSummary);
+            cursor.continue();
+          };
+        }
+      };
+      // Another tab still has an older version of the database open.
+      request.onblocked = () => {
+        isBlocked = true;
+        reject(new Error('The local database is in use by another tab of the app. Close the other tabs and try again.'));
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        if (isBlocked) {
+          db.close();
+          return;
+        }
+        // Let a newer version of the app upgrade the database from another tab.
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => reject(request.error);
+    });
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(storeName: string, mode: IDBTransactionMode, makeRequest: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = makeRequest(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+// Runs writes against several stores in one transaction, so they succeed or fail together.
+const runWrites = async (storeNames: string[], write: (tx: IDBTransaction) => void): Promise<void> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeNames, 'readwrite');
+    write(tx);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+// Encoded blobs are cached per element so repeated autosaves don't re-encode unchanged images.
+const elementBlobs = new WeakMap<HTMLImageElement, Promise<{ key: string; blob: Blob }>>();
+
+const getElementBlob = (element: HTMLImageElement) => {
+  let entry = elementBlobs.get(element);
+  if (!entry) {
+    entry = fetch(element.src)
+      .then(res => res.blob())
+      .then(blob => ({ key: `blob-${Date.now()}-${Math.random()}`, blob }));
+    elementBlobs.set(element, entry);
+    entry.catch(() => elementBlobs.delete(element));
+  }
+  return entry;
+};
+
+const encodeWithBlobs = async (state: ProjectState): Promise<{ project: ProjectFile; blobs: Record<string, Blob> }> => {
+  const blobs: Record<string, Blob> = {};
+  const project = await serializeProject(state, async (element) => {
+    const { key, blob } = await getElementBlob(element);
+    blobs[key] = blob;
+    return key;
+  });
+  return { project, blobs };
+};
+
+const decodeWithBlobs = (data: ProjectFile, blobs: Record<string, Blob>): Promise<ProjectState> => {
+  const project = validateProjectData(data);
+  return deserializeProject(project, async (key) => {
+    const blob = blobs[key];
+    if (!blob) throw new Error(`Missing image data for "${key}".`);
+    const element = await createImageElementFromDataUrl(await blobToDataUrl(blob));
+    elementBlobs.set(element, Promise.resolve({ key, blob }));
+    return element;
+  });
+};
+
+export const saveSession = async (state: ProjectState, selection: SessionSelection, isUnsaved = true): Promise<void> => {
+  const { project, blobs } = await encodeWithBlobs(state);
+  const session: StoredSession = { project, blobs, selection, savedAt: Date.now(), isUnsaved };
+  await runRequest(SESSION_STORE, 'readwrite', store => store.put(session, SESSION_KEY));
+};
+
+export const loadSession = async (): Promise<StoredSession | null> => {
+  const session = await runRequest<StoredSession | undefined>(SESSION_STORE, 'readonly', store => store.get(SESSION_KEY));
+  return session ?? null;
+};
+
+export const restoreSession = (session: StoredSession): Promise<ProjectState> => decodeWithBlobs(session.project, session.blobs);
+
+export const clearSession = async (): Promise<void> => {
+  await runRequest(SESSION_STORE, 'readwrite', store => store.delete(SESSION_KEY));
+};
+
+// Project library
+
+const getLibraryProject = async (id: string): Promise<StoredLibraryProject> => {
+  const stored = await runRequest<StoredLibraryProject | undefined>(PROJECTS_STORE, 'readonly', store => store.get(id));
+  if (!stored) throw new Error('The project no longer exists in the library.');
+  return stored;
+};
+
+const getLibrarySummary = async (id: string): Promise<LibraryProjectSummary> => {
+  const summary = await runRequest<LibraryProjectSummary | undefined>(SUMMARIES_STORE, 'readonly', store => store.get(id));
+  if (!summary) throw new Error('The project no longer exists in the library.');
+  return summary;
+};
+
+const putLibraryProject = (summary: LibraryProjectSummary, stored: StoredLibraryProject): Promise<void> =>
+  runWrites([SUMMARIES_STORE, PROJECTS_STORE], tx => {
+    tx.objectStore(SUMMARIES_STORE).put(summary);
+    tx.objectStore(PROJECTS_STORE).put(stored);
+  });
+
+export const listLibraryProjects = async (): Promise<LibraryProjectSummary[]> => {
+  const summaries = await runRequest<LibraryProjectSummary[]>(SUMMARIES_STORE, 'readonly', store => store.getAll());
+  return summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const saveLibraryProject = async (id: string, name: string, state: ProjectState, thumbnail: string | null): Promise<void> => {
+  const { project, blobs } = await encodeWithBlobs(state);
+  await putLibraryProject({ id, name, updatedAt: Date.now(), imageCount: state.images.length, thumbnail }, { id, project, blobs });
+};
+
+export const openLibraryProject = async (id: string): Promise<ProjectState> => {
+  const stored = await getLibraryProject(id);
+  return decodeWithBlobs(stored.project, stored.blobs);
+};
+
+export const renameLibraryProject = async (id: string, name: string): Promise<void> => {
+  const summary = await getLibrarySummary(id);
+  await runRequest(SUMMARIES_STORE, 'readwrite', store => store.put({ ...summary, name, updatedAt: Date.now() }));
+};
+
+export const duplicateLibraryProject = async (id: string): Promise<string> => {
+  const [summary, stored] = await Promise.all([getLibrarySummary(id), getLibraryProject(id)]);
+  const newId = `project-${Date.now()}-${Math.random()}`;
+  await putLibraryProject({ ...summary, id: newId, name: `${summary.name} (copy)`, updatedAt: Date.now() }, { ...stored, id: newId });
+  return newId;
+};
+
+export const deleteLibraryProject = async (id: string): Promise<void> => {
+  await runWrites([SUMMARIES_STORE, PROJECTS_STORE], tx => {
+    tx.objectStore(SUMMARIES_STORE).delete(id);
+    tx.objectStore(PROJECTS_STORE).delete(id);
+  });
+};
@@ -0,0 +1,261 @@
+import { CanvasImage, Annotation, Rect, TextAnnotation, Point, ExportOptions, Group } from '../types';
+import { getExportBounds, getRenderableImages, padRect, DEFAULT_EXPORT_OPTIONS } from './canvasUtils';
+import { getProcessedSource, pixelsToCanvas } from './imageProcessingUtils';
+import { getPipelineKey } from './pixelPipelineUtils';
+import { getImageSourceBlob, blobToDataUrl } from './fileUtils';
+
+const escapeXml = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+
+const num = (value: number): string => String(Math.round(value * 1000) / 1000);
+
+const attrs = (values: Record<string, string | number | undefined>): string =>
+  Object.entries(values)
+    .filter(([, v]) => v !== undefined)
+    .map(([k, v]) => `${k}="${typeof v === 'number' ? num(v) : escapeXml(v as string)}"`)
+    .join(' ');
+
+const points = (pts: Point[]): string => pts.map(p => `${num(p.x)},${num(p.y)}`).join(' ');
+
+let measureCtx: CanvasRenderingContext2D | null = null;
+const getMeasureContext = (): CanvasRenderingContext2D | null => {
+  if (!measureCtx) measureCtx = document.createElement('canvas').getContext('2d');
+  return measureCtx;
+};
+
+// Line widths plus the distance from the top of a line to its alphabetic baseline,
+// so SVG text lines up with canvas text drawn with textBaseline = 'top'.
+const measureText = (annotation: TextAnnotation) => {
+  const lines = annotation.text.split('\n');
+  const ctx = getMeasureContext();
+  if (!ctx) return { lines, widths: lines.map(() => 0), ascent: annotation.fontSize * 0.8 };
+  ctx.save();
+  ctx.font = `${annotation.fontSize}px ${annotation.fontFamily}`;
+  ctx.textBaseline = 'top';
+  const widths = lines.map(line => ctx.measureText(line).width);
+  const ascent = Math.abs(ctx.measureText('M').alphabeticBaseline ?? 0) || annotation.fontSize * 0.8;
+  ctx.restore();
+  return { lines, widths, ascent };
+};
+
+// Same pivot as drawAnnotation uses for rotation and scale.
+const getAnnotationCenter = (annotation: Annotation): Point => {
+  switch (annotation.type) {
+    case 'rect':
+      return { x: annotation.x + annotation.width / 2, y: annotation.y + annotation.height / 2 };
+    case 'circle':
+      return { x: annotation.x, y: annotation.y };
+    case 'text': {
+      const { lines, widths } = measureText(annotation);
+      const lineHeight = annotation.fontSize * 1.2;
+      return { x: annotation.x + Math.max(0, ...widths) / 2, y: annotation.y + (lineHeight * lines.length) / 2 };
+    }
+    case 'freehand': {
+      let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+      annotation.points.forEach(p => { minX = Math.min(minX, p.x); maxX = Math.max(maxX, p.x); minY = Math.min(minY, p.y); maxY = Math.max(maxY, p.y); });
+      return { x: minX + (maxX - minX) / 2, y: minY + (maxY - minY) / 2 };
+    }
+    case 'arrow':
+    case 'line':
+      return { x: (annotation.start.x + annotation.end.x) / 2, y: (annotation.start.y + annotation.end.y) / 2 };
+  }
+};
+
+const hasFill = (color?: string): color is string => !!color && color !== 'transparent';
+
+const annotationToSvg = (annotation: Annotation): string => {
+  const stroke = { stroke: annotation.color, 'stroke-width': annotation.strokeWidth, 'stroke-linecap': 'round', 'stroke-linejoin': 'round' };
+  const parts: string[] = [];
+
+  switch (annotation.type) {
+    case 'line':
+    case 'arrow': {
+      parts.push(`<line ${attrs({ x1: annotation.start.x, y1: annotation.start.y, x2: annotation.end.x, y2: annotation.end.y, ...stroke })}/>`);
+      if (annotation.type === 'arrow') {
+        const angle = Math.atan2(annotation.end.y - annotation.start.y, annotation.end.x - annotation.start.x);
+        const headLen = 10 + annotation.strokeWidth;
+        const head = [
+          { x: annotation.end.x - headLen * Math.cos(angle - Math.PI / 6), y: annotation.end.y - headLen * Math.sin(angle - Math.PI / 6) },
+          annotation.end,
+          { x: annotation.end.x - headLen * Math.cos(angle + Math.PI / 6), y: annotation.end.y - headLen * Math.sin(angle + Math.PI / 6) },
+        ];
+        parts.push(`<polyline ${attrs({ points: points(head), fill: 'none', ...stroke })}/>`);
+      }
+      break;
+    }
+    case 'freehand': {
+      if (annotation.outlineWidth && annotation.outlineWidth > 0) {
+        parts.push(`<polyline ${attrs({
+          points: points(annotation.points),
+          fill: 'none',
+          ...stroke,
+          stroke: annotation.outlineColor || '#000000',
+          'stroke-width': annotation.strokeWidth + annotation.outlineWidth * 2,
+          'stroke-opacity': annotation.outlineOpacity ?? 1,
+        })}/>`);
+      }
+      parts.push(`<polyline ${attrs({ points: points(annotation.points), fill: 'none', ...stroke })}/>`);
+      break;
+    }
+    case 'rect': {
+      // SVG rejects negative sizes, so normalize rects drawn right-to-left or bottom-to-top.
+      const x = Math.min(annotation.x, annotation.x + annotation.width);
+      const y = Math.min(annotation.y, annotation.y + annotation.height);
+      parts.push(`<rect ${attrs({
+        x, y, width: Math.abs(annotation.width), height: Math.abs(annotation.height),
+        fill: hasFill(annotation.fillColor) ? annotation.fillColor : 'none',
+        'fill-opacity': hasFill(annotation.fillColor) ? annotation.fillOpacity ?? 1 : undefined,
+        ...stroke,
+      })}/>`);
+      break;
+    }
+    case 'circle': {
+      parts.push(`<circle ${attrs({
+        cx: annotation.x, cy: annotation.y, r: annotation.radius,
+        fill: hasFill(annotation.fillColor) ? annotation.fillColor : 'none',
+        'fill-opacity': hasFill(annotation.fillColor) ? annotation.fillOpacity ?? 1 : undefined,
+        ...stroke,
+      })}/>`);
+      break;
+    }
+    case 'text': {
+      const { lines, widths, ascent } = measureText(annotation);
+      const lineHeight = annotation.fontSize * 1.2;
+      if (annotation.backgroundColor && annotation.backgroundOpacity > 0) {
+        const yPadding = annotation.fontSize * 0.15;
+        const xPadding = annotation.fontSize * 0.1;
+        parts.push(`<rect ${attrs({
+          x: annotation.x - xPadding,
+          y: annotation.y - yPadding,
+          width: Math.max(0, ...widths) + xPadding * 2,
+          height: lineHeight * lines.length + yPadding * 2,
+          fill: annotation.backgroundColor,
+          'fill-opacity': annotation.backgroundOpacity ?? 1,
+        })}/>`);
+      }
+      const hasStroke = annotation.strokeWidth > 0 && !!annotation.strokeColor;
+      // Kept as real <text>/<tspan> elements so the text stays editable in vector editors.
+      const tspans = lines.map((line, i) =>
+        `<tspan ${attrs({ x: annotation.x, y: annotation.y + i * lineHeight + ascent })}>${escapeXml(line)}</tspan>`
+      ).join('');
+      parts.push(`<text ${attrs({
+        'xml:space': 'preserve',
+        'font-family': annotation.fontFamily,
+        'font-size': annotation.fontSize,
+        fill: annotation.color,
+        stroke: hasStroke ? annotation.strokeColor : undefined,
+        'stroke-width': hasStroke ? annotation.strokeWidth : undefined,
+        'stroke-opacity': hasStroke ? annotation.strokeOpacity ?? 1 : undefined,
+        'stroke-linejoin': hasStroke ? 'round' : undefined,
+        'paint-order': hasStroke ? 'stroke' : undefined,
+      })}>${tspans}</text>`);
+      break;
+    }
+  }
+
+  const body = parts.join('');
+  if (annotation.rotation === 0 && annotation.scale === 1) return body;
+  const c = getAnnotationCenter(annotation);
+  return `<g transform="translate(${num(c.x)} ${num(c.y)}) rotate(${num(annotation.rotation)}) scale(${num(annotation.scale)}) translate(${num(-c.x)} ${num(-c.y)})">${body}</g>`;
+};
+
+// Unedited images embed their original file, in its own format. Processed pixels are embedded
+// as rendered, since SVG viewers don't know about adjustments or filters; callers prepare them
+// with prepareProcessedSources first.
+const getImagePixelsDataUrl = async (image: CanvasImage): Promise<string> => {
+  if (getPipelineKey(image) === null) {
+    const original = getImageSourceBlob(image.element);
+    if (original?.type.startsWith('image/')) return blobToDataUrl(original);
+    if (image.element.src.startsWith('data:')) return image.element.src;
+  }
+  return pixelsToCanvas(getProcessedSource(image)).toDataURL('image/png');
+};
+
+// Mirrors the source around the center of the cropped region, as drawImageLayer does.
+const getFlipTransform = (image: CanvasImage, crop: Rect): string | undefined => {
+  if (!image.flipX && !image.flipY) return undefined;
+  const tx = image.flipX ? 2 * crop.x + crop.width : 0;
+  const ty = image.flipY ? 2 * crop.y + crop.height : 0;
+  return `translate(${num(tx)} ${num(ty)}) scale(${image.flipX ? -1 : 1} ${image.flipY ? -1 : 1})`;
+};
+
+const imageToSvg = (image: CanvasImage, index: number, href: string): string => {
+  const cx = image.x + (image.width * image.scale) / 2;
+  const cy = image.y + (image.height * image.scale) / 2;
+  const crop: Rect = image.cropRect ?? { x: 0, y: 0, width: image.originalWidth, height: image.originalHeight };
+
+  // A nested <svg> viewport shows only the cropped region of the full source image.
+  const pixels = `<svg ${attrs({
+    x: 0, y: 0, width: image.width, height: image.height,
+    viewBox: `${num(crop.x)} ${num(crop.y)} ${num(crop.width)} ${num(crop.height)}`,
+    preserveAspectRatio: 'none',
+    overflow: 'hidden',
+  })}><image ${attrs({
+    width: image.originalWidth,
+    height: image.originalHeight,
+    preserveAspectRatio: 'none',
+    transform: getFlipTransform(image, crop),
+    'xlink:href': href,
+  })}/></svg>`;
+
+  const outline = image.outlineWidth && image.outlineWidth > 0
+    ? `<rect ${attrs({
+      width: image.width, height: image.height, fill: 'none',
+      stroke: image.outlineColor || '#000000',
+      'stroke-opacity': image.outlineOpacity || 1,
+      'stroke-width': image.outlineWidth / image.scale,
+    })}/>`
+    : '';
+
+  // Annotations are clipped to the image frame, as in drawImageLayer.
+  const clipId = `clip-${index}`;
+  const annotations = image.annotations.length > 0
+    ? `<clipPath ${attrs({ id: clipId })}><rect ${attrs({ width: image.width, height: image.height })}/></clipPath>` +
+      `<g clip-path="url(#${clipId})">${image.annotations.map(annotationToSvg).join('')}</g>`
+    : '';
+
+  const transform = `translate(${num(cx)} ${num(cy)}) rotate(${num(image.rotation)}) scale(${num(image.scale)}) translate(${num(-image.width / 2)} ${num(-image.height / 2)})`;
+  return `<g ${attrs({ id: image.id, transform })}><title>${escapeXml(image.name)}</title>${pixels}${outline}${annotations}</g>`;
+};
+
+/**
+ * Builds a standalone SVG document of the given images (bottom to top) and
+ * canvas annotations, using the same traversal as renderToOffscreenCanvas. The export
+ * scale only changes the document's display size; the content stays vector.
+ * With `clipToBounds`, content outside the bounds is cut off instead of
+ * spilling into the padding, as in renderToOffscreenCanvas.
+ */
+export const createSvgDocument = async (
+  itemsToDraw: CanvasImage[],
+  canvasAnnosToDraw: Annotation[],
+  groups: Group[],
+  specificBounds: Rect | null,
+  options: ExportOptions = DEFAULT_EXPORT_OPTIONS,
+  clipToBounds = false
+): Promise<string | null> => {
+  const renderableImages = getRenderableImages(itemsToDraw, groups);
+  const contentBounds = specificBounds ?? getExportBounds(renderableImages, canvasAnnosToDraw);
+  if (!contentBounds) return null;
+  const bounds = padRect(contentBounds, options.padding);
+
+  const items = [
+    ...await Promise.all(renderableImages.map(async (image, index) => imageToSvg(image, index, await getImagePixelsDataUrl(image)))),
+    ...canvasAnnosToDraw.map(annotationToSvg),
+  ].join('\n');
+  const content = [
+    ...(options.transparentBackground ? [] : [`<rect ${attrs({ x: bounds.x, y: bounds.y, width: bounds.width, height: bounds.height, fill: options.backgroundColor })}/>`]),
+    clipToBounds
+      ? `<clipPath ${attrs({ id: 'clip-bounds' })}><rect ${attrs({ x: contentBounds.x, y: contentBounds.y, width: contentBounds.width, height: contentBounds.height })}/></clipPath>\n<g clip-path="url(#clip-bounds)">\n${items}\n</g>`
+      : items,
+  ].join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" ${attrs({
+    width: bounds.width * options.scale,
+    height: bounds.height * options.scale,
+    viewBox: `${num(bounds.x)} ${num(bounds.y)} ${num(bounds.width)} ${num(bounds.height)}`,
+  })}>
+${content}
+</svg>
+`;
+};
@@ -0,0 +1,135 @@
+import { Point, ToneChannel, ToneCurve, ToneLevels } from '../types';
+
+export const TONE_CHANNELS: ToneChannel[] = ['rgb', 'red', 'green', 'blue'];
+export const TONE_CHANNEL_LABELS: Record<ToneChannel, string> = { rgb: 'RGB', red: 'Red', green: 'Green', blue: 'Blue' };
+
+export const DEFAULT_LEVELS: ToneLevels = { inputBlack: 0, inputWhite: 255, gamma: 1, outputBlack: 0, outputWhite: 255 };
+export const DEFAULT_CURVE: Point[] = [{ x: 0, y: 0 }, { x: 255, y: 255 }];
+
+const mapChannels = <T>(fn: (channel: ToneChannel) => T): Record<ToneChannel, T> =>
+  ({ rgb: fn('rgb'), red: fn('red'), green: fn('green'), blue: fn('blue') });
+
+export const createToneCurve = (): ToneCurve => ({
+  levels: mapChannels(() => ({ ...DEFAULT_LEVELS })),
+  curves: mapChannels(() => DEFAULT_CURVE.map(p => ({ ...p }))),
+});
+
+const isLevelsNeutral = (levels: ToneLevels) =>
+  (Object.keys(DEFAULT_LEVELS) as (keyof ToneLevels)[]).every(key => levels[key] === DEFAULT_LEVELS[key]);
+
+const isCurveNeutral = (points: Point[]) => points.every(p => p.x === p.y);
+
+export const isChannelNeutral = (tone: ToneCurve, channel: ToneChannel) =>
+  isLevelsNeutral(tone.levels[channel]) && isCurveNeutral(tone.curves[channel]);
+
+export const isToneCurveNeutral = (tone?: ToneCurve): boolean =>
+  !tone || TONE_CHANNELS.every(channel => isChannelNeutral(tone, channel));
+
+const clamp = (v: number, min: number, max: number) => Math.min(max, Math.max(min, v));
+
+const applyLevels = ({ inputBlack, inputWhite, gamma, outputBlack, outputWhite }: ToneLevels, v: number) => {
+  const t = clamp((v - inputBlack) / Math.max(1, inputWhite - inputBlack), 0, 1);
+  return outputBlack + Math.pow(t, 1 / gamma) * (outputWhite - outputBlack);
+};
+
+/**
+ * Samples a smooth curve through the control points at every input value.
+ * Monotone cubic interpolation (Fritsch–Carlson) keeps it from overshooting
+ * between points; beyond the first and last point it stays flat.
+ */
+export const sampleCurve = (points: Point[]): Float32Array => {
+  const sorted = [...points].sort((a, b) => a.x - b.x);
+  const lut = new Float32Array(256);
+  const n = sorted.length;
+  if (n === 1) return lut.fill(sorted[0].y);
+
+  const slopes: number[] = [];
+  for (let i = 0; i < n - 1; i++) slopes.push((sorted[i + 1].y - sorted[i].y) / Math.max(1e-6, sorted[i + 1].x - sorted[i].x));
+  const tangents = sorted.map((_, i) => {
+    if (i === 0) return slopes[0];
+    if (i === n - 1) return slopes[n - 2];
+    return slopes[i - 1] * slopes[i] <= 0 ? 0 : (slopes[i - 1] + slopes[i]) / 2;
+  });
+  for (let i = 0; i < n - 1; i++) {
+    if (slopes[i] === 0) {
+      tangents[i] = tangents[i + 1] = 0;
+      continue;
+    }
+    const a = tangents[i] / slopes[i];
+    const b = tangents[i + 1] / slopes[i];
+    const h = a * a + b * b;
+    if (h > 9) {
+      tangents[i] = (3 * a / Math.sqrt(h)) * slopes[i];
+      tangents[i + 1] = (3 * b / Math.sqrt(h)) * slopes[i];
+    }
+  }
+
+  let segment = 0;
+  for (let x = 0; x < 256; x++) {
+    if (x <= sorted[0].x) { lut[x] = sorted[0].y; continue; }
+    if (x >= sorted[n - 1].x) { lut[x] = sorted[n - 1].y; continue; }
+    while (x > sorted[segment + 1].x) segment++;
+    const p0 = sorted[segment], p1 = sorted[segment + 1];
+    const h = p1.x - p0.x;
+    const t = (x - p0.x) / h;
+    const t2 = t * t, t3 = t2 * t;
+    lut[x] = (2 * t3 - 3 * t2 + 1) * p0.y + (t3 - 2 * t2 + t) * h * tangents[segment]
+      + (-2 * t3 + 3 * t2) * p1.y + (t3 - t2) * h * tangents[segment + 1];
+  }
+  return lut;
+};
+
+// One lookup table per color channel: the channel's levels, the RGB levels, the channel's curve, then the RGB curve.
+export const createToneLuts = (tone: ToneCurve): [Uint8ClampedArray, Uint8ClampedArray, Uint8ClampedArray] => {
+  const rgbCurve = sampleCurve(tone.curves.rgb);
+  const lutFor = (channel: ToneChannel) => {
+    const curve = sampleCurve(tone.curves[channel]);
+    const lut = new Uint8ClampedArray(256);
+    for (let v = 0; v < 256; v++) {
+      const leveled = applyLevels(tone.levels.rgb, applyLevels(tone.levels[channel], v));
+      lut[v] = rgbCurve[Math.round(clamp(curve[Math.round(clamp(leveled, 0, 255))], 0, 255))];
+    }
+    return lut;
+  };
+  return [lutFor('red'), lutFor('green'), lutFor('blue')];
+};
+
+// Applies the tone curve to RGBA pixels in place. Free of DOM access, so it can also run in a worker.
+export const applyToneCurve = (pixels: Uint8ClampedArray, tone?: ToneCurve) => {
+  if (!tone || isToneCurveNeutral(tone)) return;
+  const [red, green, blue] = createToneLuts(tone);
+  for (let i = 0; i < pixels.length; i += 4) {
+    pixels[i] = red[pixels[i]];
+    pixels[i + 1] = green[pixels[i + 1]];
+    pixels[i + 2] = blue[pixels[i + 2]];
+  }
+};
+
+export interface Histogram {
+  red: Uint32Array;
+  green: Uint32Array;
+  blue: Uint32Array;
+}
+
+// Counts of each value per channel. Fully transparent pixels are left out.
+export const computeHistogram = (pixels: Uint8ClampedArray): Histogram => {
+  const histogram = { red: new Uint32Array(256), green: new Uint32Array(256), blue: new Uint32Array(256) };
+  for (let i = 0; i < pixels.length; i += 4) {
+    if (pixels[i + 3] === 0) continue;
+    histogram.red[pixels[i]]++;
+    histogram.green[pixels[i + 1]]++;
+    histogram.blue[pixels[i + 2]]++;
+  }
+  return histogram;
+};
+
+// The histogram of the same pixels after the tone curve. Exact, because the curve maps each channel value on its own.
+export const applyToneCurveToHistogram = (histogram: Histogram, tone: ToneCurve): Histogram => {
+  const luts = createToneLuts(tone);
+  const [red, green, blue] = [histogram.red, histogram.green, histogram.blue].map((counts, channel) => {
+    const mapped = new Uint32Array(256);
+    for (let v = 0; v < 256; v++) mapped[luts[channel][v]] += counts[v];
+    return mapped;
+  });
+  return { red, green, blue };
+};
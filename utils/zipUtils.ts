@@ -0,0 +1,191 @@
+import { CanvasImage, Group, Annotation, ExportFormat, ExportOptions } from '../types';
+import { ProjectState, serializeProject, parseProjectFile, deserializeProject } from './projectUtils';
+import { blobToDataUrl, createImageElementFromDataUrl } from './fileUtils';
+import { renderToBlob, sanitizeFileName, getExportFileExtension } from './exportUtils';
+
+export const PACKAGED_PROJECT_EXTENSION = 'cproz';
+const MANIFEST_PATH = 'project.json';
+
+// Minimal typing for the JSZip build loaded from the CDN in index.html.
+interface JSZipObject {
+  async(type: 'blob'): Promise<Blob>;
+  async(type: 'string'): Promise<string>;
+}
+
+export interface JSZipInstance {
+  file(path: string): JSZipObject | null;
+  file(path: string, data: Blob | string, options?: { compression?: 'STORE' | 'DEFLATE' }): JSZipInstance;
+  folder(name: string): JSZipInstance | null;
+  generateAsync(options: { type: 'blob'; compression?: 'STORE' | 'DEFLATE' }): Promise<Blob>;
+}
+
+interface JSZipStatic {
+  new (): JSZipInstance;
+  loadAsync(data: Blob | ArrayBuffer): Promise<JSZipInstance>;
+}
+
+declare global {
+  interface Window {
+    JSZip?: JSZipStatic;
+  }
+}
+
+export const getJSZip = (): JSZipStatic => {
+  const JSZip = window.JSZip;
+  if (!JSZip) throw new Error('ZIP support is not available (JSZip failed to load).');
+  return JSZip;
+};
+
+const EXTENSION_BY_MIME: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'image/bmp': 'bmp',
+  'image/svg+xml': 'svg',
+  'image/avif': 'avif',
+};
+
+const MIME_BY_EXTENSION: Record<string, string> = Object.fromEntries(
+  Object.entries(EXTENSION_BY_MIME).map(([mime, ext]) => [ext, mime])
+);
+
+const sha256Hex = async (blob: Blob): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const isZipFile = async (file: Blob): Promise<boolean> => {
+  const header = new Uint8Array(await file.slice(0, 4).arrayBuffer());
+  return header[0] === 0x50 && header[1] === 0x4b && header[2] === 0x03 && header[3] === 0x04;
+};
+
+/**
+ * Packs a project into a ZIP: a `project.json` manifest whose image `src`
+ * fields point at `images/<sha256>.<ext>` entries holding the original bytes.
+ * Identical images are stored once.
+ */
+export const createPackagedProject = async (state: ProjectState): Promise<Blob> => {
+  const JSZip = getJSZip();
+  const zip = new JSZip();
+  const pathByElement = new Map<HTMLImageElement, string>();
+  const writtenPaths = new Set<string>();
+
+  const project = await serializeProject(state, async (element) => {
+    const cached = pathByElement.get(element);
+    if (cached) return cached;
+
+    const blob = await (await fetch(element.src)).blob();
+    const ext = EXTENSION_BY_MIME[blob.type] ?? 'bin';
+    const path = `images/${await sha256Hex(blob)}.${ext}`;
+    if (!writtenPaths.has(path)) {
+      zip.file(path, blob, { compression: 'STORE' });
+      writtenPaths.add(path);
+    }
+    pathByElement.set(element, path);
+    return path;
+  });
+
+  zip.file(MANIFEST_PATH, JSON.stringify(project), { compression: 'DEFLATE' });
+  return zip.generateAsync({ type: 'blob' });
+};
+
+export const readPackagedProject = async (file: Blob): Promise<ProjectState> => {
+  const JSZip = getJSZip();
+  let zip: JSZipInstance;
+  try {
+    zip = await JSZip.loadAsync(file);
+  } catch {
+    throw new Error('The file is corrupt or is not a valid project archive.');
+  }
+
+  const manifest = zip.file(MANIFEST_PATH);
+  if (!manifest) throw new Error(`The archive has no ${MANIFEST_PATH} manifest.`);
+  const project = parseProjectFile(await manifest.async('string'));
+
+  return deserializeProject(project, async (path) => {
+    const entry = zip.file(path);
+    if (!entry) throw new Error(`The archive is missing "${path}".`);
+    const ext = path.split('.').pop()?.toLowerCase() ?? '';
+    const bytes = await entry.async('blob');
+    const blob = new Blob([bytes], { type: MIME_BY_EXTENSION[ext] ?? 'application/octet-stream' });
+    return createImageElementFromDataUrl(await blobToDataUrl(blob));
+  });
+};
+
+const stripExtension = (name: string): string => name.replace(/\.[^.]+$/, '');
+
+// Maps every group to its folder path, giving same-named siblings distinct folder names.
+const getGroupFolderPaths = (groups: Group[]): Map<string, string> => {
+  const paths = new Map<string, string>();
+  const visit = (parentId: string | null, parentPath: string) => {
+    const used = new Set<string>();
+    groups.filter(g => g.parentId === parentId).forEach(group => {
+      const base = sanitizeFileName(group.name);
+      let folder = base;
+      for (let n = 2; used.has(folder.toLowerCase()); n++) folder = `${base} (${n})`;
+      used.add(folder.toLowerCase());
+      const path = `${parentPath}${folder}/`;
+      paths.set(group.id, path);
+      visit(group.id, path);
+    });
+  };
+  visit(null, '');
+  return paths;
+};
+
+/**
+ * Renders each image on its own (with its annotations) into a ZIP. Filenames are
+ * prefixed with the image's position in the layer order (bottom = 1) and placed
+ * in folders mirroring the group hierarchy. Canvas annotations are drawn above
+ * every image, so they go into one file after the last position.
+ */
+export const createLayeredImageArchive = async (
+  imagesToExport: CanvasImage[],
+  canvasAnnotations: Annotation[],
+  allImages: CanvasImage[],
+  groups: Group[],
+  format: ExportFormat,
+  options: ExportOptions
+): Promise<Blob> => {
+  const JSZip = getJSZip();
+  const zip = new JSZip();
+  const folderPaths = getGroupFolderPaths(groups);
+  const digits = String(allImages.length + 1).length;
+  const ext = getExportFileExtension(format);
+
+  const ordered = [...imagesToExport].sort((a, b) => allImages.indexOf(a) - allImages.indexOf(b));
+  for (const image of ordered) {
+    const blob = await renderToBlob([image], [], groups, null, format, options);
+    if (!blob) continue;
+    const position = String(allImages.indexOf(image) + 1).padStart(digits, '0');
+    const group = groups.find(g => g.imageIds.includes(image.id));
+    const folder = group ? folderPaths.get(group.id) ?? '' : '';
+    zip.file(`${folder}${position}_${sanitizeFileName(stripExtension(image.name))}.${ext}`, blob, { compression: format === 'svg' ? 'DEFLATE' : 'STORE' });
+  }
+
+  if (canvasAnnotations.length > 0) {
+    const blob = await renderToBlob([], canvasAnnotations, groups, null, format, options);
+    const position = String(allImages.length + 1).padStart(digits, '0');
+    if (blob) zip.file(`${position}_annotations.${ext}`, blob, { compression: format === 'svg' ? 'DEFLATE' : 'STORE' });
+  }
+
+  return zip.generateAsync({ type: 'blob' });
+};
+
+// Bundles already-rendered files into a ZIP, making duplicate paths unique.
+export const createArchive = async (entries: { path: string; blob: Blob }[]): Promise<Blob> => {
+  const JSZip = getJSZip();
+  const zip = new JSZip();
+  const used = new Set<string>();
+  entries.forEach(({ path, blob }) => {
+    const dot = path.lastIndexOf('.');
+    const base = dot > 0 ? path.slice(0, dot) : path;
+    const ext = dot > 0 ? path.slice(dot) : '';
+    let unique = path;
+    for (let n = 2; used.has(unique.toLowerCase()); n++) unique = `${base} (${n})${ext}`;
+    used.add(unique.toLowerCase());
+    zip.file(unique, blob, { compression: blob.type === 'image/svg+xml' ? 'DEFLATE' : 'STORE' });
+  });
+  return zip.generateAsync({ type: 'blob' });
+};
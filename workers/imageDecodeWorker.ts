@@ -0,0 +1,17 @@
+import { decodeImageFile, DecodeRequest, DecodeResponse } from '../utils/decodeUtils';
+
+// The DOM lib types `self` as Window, whose postMessage needs a target origin.
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<DecodeRequest>) => void) | null;
+  postMessage: (message: DecodeResponse, transfer?: Transferable[]) => void;
+};
+
+scope.onmessage = async ({ data: { id, file } }) => {
+  try {
+    const result = await decodeImageFile(file);
+    // The bitmap is moved, not copied, to the main thread.
+    scope.postMessage({ id, result }, result.bitmap ? [result.bitmap] : []);
+  } catch (e) {
+    scope.postMessage({ id, error: e instanceof Error ? e.message : String(e) });
+  }
+};
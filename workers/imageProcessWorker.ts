@@ -0,0 +1,16 @@
+import { processImageBitmap, ProcessRequest, ProcessResponse } from '../utils/pixelPipelineUtils';
+
+// The DOM lib types `self` as Window, whose postMessage needs a target origin.
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<ProcessRequest>) => void) | null;
+  postMessage: (message: ProcessResponse, transfer: Transferable[]) => void;
+};
+
+scope.onmessage = ({ data: { id, bitmap, pipeline } }) => {
+  try {
+    const result = processImageBitmap(bitmap, pipeline);
+    scope.postMessage({ id, bitmap: result }, [result]);
+  } catch (e) {
+    scope.postMessage({ id, error: e instanceof Error ? e.message : String(e) }, []);
+  }
+};